@@ -0,0 +1,29 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import 'fake-indexeddb/auto';
+
+// A model stands in for the API key, so the assistant is offered
+vi.mock('./services/assistantService', async importOriginal => {
+  const actual = await importOriginal<typeof import('./services/assistantService')>();
+  return { ...actual, assistantService: new actual.AssistantService({ generateJson: async () => ({ tasks: [] }) as never }) };
+});
+
+import App from './App';
+
+// jsdom has no speech synthesis; the settings list its voices
+vi.stubGlobal('speechSynthesis', { getVoices: () => [], speak: () => {}, cancel: () => {} });
+
+afterEach(cleanup);
+
+describe('App', () => {
+  it('opens the assistant from the wand button', async () => {
+    render(<App />);
+    expect(screen.queryByText('Break Down')).toBeNull();
+
+    fireEvent.click(await screen.findByTitle('Assistant'));
+
+    expect(await screen.findByText('Break Down')).toBeTruthy();
+  });
+});
@@ -1,99 +1,144 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Task, AppSettings, DEFAULT_SETTINGS, Priority, SortOption } from './types';
-import { Settings, Plus, FileInput, Bell, BellOff, VolumeX, Flag, Download, MonitorDown, Cloud, ArrowUpDown } from 'lucide-react';
+import { Task, TaskList, Tombstone, SyncStatus, SyncUser, AppSettings, Priority, SortOption, RecurrenceRule, TaskFilter, SavedFilter } from './types';
+import { Settings, Plus, FileInput, Bell, BellOff, Flag, Download, MonitorDown, ArrowUpDown, Repeat, ListFilter, Sparkles, WandSparkles } from 'lucide-react';
 import { Reorder } from 'framer-motion';
 import { TaskItem } from './components/TaskItem';
 import { SettingsModal } from './components/SettingsModal';
 import { EditModal } from './components/EditModal';
 import { ConfirmationModal } from './components/ConfirmationModal';
+import { UpdateToast } from './components/UpdateToast';
 import { DatePicker } from './components/ui/DatePicker';
+import { RecurrenceEditor } from './components/RecurrenceEditor';
+import { AlarmBanner } from './components/AlarmBanner';
+import { MissedRemindersModal } from './components/MissedRemindersModal';
+import { SyncStatusIndicator } from './components/SyncStatusIndicator';
+import { DoNotDisturbButton } from './components/DoNotDisturbButton';
+import { ListSwitcher } from './components/ListSwitcher';
+import { ListEditorModal } from './components/ListEditorModal';
+import { ImportPreviewModal, ImportSelection, PendingImport } from './components/ImportPreviewModal';
+import { CsvImportModal } from './components/CsvImportModal';
+import { ExportModal } from './components/ExportModal';
+import { FilterBar } from './components/FilterBar';
+import { QuickAddPreview } from './components/QuickAddPreview';
+import { AssistantModal, ReviewedDraft } from './components/AssistantModal';
 import { audioService } from './services/audioService';
 import { syncService } from './services/syncService';
-import { User } from 'firebase/auth';
+import { notificationService } from './services/notificationService';
+import { backgroundService } from './services/backgroundService';
+import { pwaService } from './services/pwaService';
+import { taskRepository } from './services/taskRepository';
+import { listRepository } from './services/listRepository';
+import { assistantService } from './services/assistantService';
+import { attachmentRepository } from './services/attachmentRepository';
+import { loadSettings, saveSettings } from './services/settingsStorage';
+import { getTodayDate } from './utils/date';
+import { createTombstones, keepIfUnchanged, mergeRecords, mergeTombstones, stampChanges } from './utils/merge';
+import { completeTask } from './utils/recurrence';
+import { getSnoozeOption, snoozeTask } from './utils/snooze';
+import { buildSchedule, loadLastTick, runSchedulerTick, saveLastTick } from './utils/scheduler';
+import { createReminders } from './utils/reminders';
+import { areSubtasksDone, toggleSubtask } from './utils/subtasks';
+import { parseBackup } from './utils/backup';
+import { parseIcs } from './utils/ical';
+import { applyImport, planImport, reconcileImportedTask } from './utils/importPlan';
+import { ALL_LISTS, INBOX, findList, isInView } from './utils/lists';
+import { getAlarmSound } from './utils/sounds';
+import { getTaskAnnouncement } from './utils/announcement';
+import { RingingAlert, getMostUrgent, mergeAlerts } from './utils/alarms';
+import { applyQuietHoursToSchedule, getDeferUntil, getQuietAction, retimeDeferredTasks } from './utils/quietHours';
+import { EMPTY_FILTER, collectTags, isFilterActive, isSameFilter, matchesFilter } from './utils/filters';
+import { QuickAddField, parseQuickAdd } from './utils/quickAdd';
 
 const App: React.FC = () => {
-  // Helpers
-  const getTodayDate = () => {
-    const now = new Date();
-    return now.getFullYear() + '-' + String(now.getMonth() + 1).padStart(2, '0') + '-' + String(now.getDate()).padStart(2, '0');
-  };
-
   // State
-  const [tasks, setTasks] = useState<Task[]>(() => {
-    const saved = localStorage.getItem('windo-tasks');
-    const parsed = saved ? JSON.parse(saved) : [];
-    // Migration: ensure new fields exist for old tasks
-    return parsed.map((t: any) => ({
-        ...t,
-        date: t.date || getTodayDate(),
-        priority: t.priority || 'medium',
-        createdAt: t.createdAt || Date.now()
-    }));
-  });
+  // Tasks are loaded asynchronously from IndexedDB (see taskRepository)
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [lists, setLists] = useState<TaskList[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
   
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    try {
-        const saved = localStorage.getItem('windo-settings');
-        return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
-    } catch (e) {
-        console.error("Failed to load settings:", e);
-        return DEFAULT_SETTINGS;
-    }
-  });
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
 
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskTime, setNewTaskTime] = useState('');
   const [newTaskDate, setNewTaskDate] = useState(getTodayDate());
   const [newTaskPriority, setNewTaskPriority] = useState<Priority>('medium');
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  const [isRecurrenceOpen, setIsRecurrenceOpen] = useState(false);
+  // Quick add: phrases the user wants kept in the title, and fields set in the form instead of the text
+  const [ignoredQuickAdd, setIgnoredQuickAdd] = useState<QuickAddField[]>([]);
+  const [manualFields, setManualFields] = useState<QuickAddField[]>([]);
   
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'ongoing' | 'completed'>('ongoing');
-  const [isAlarmRinging, setIsAlarmRinging] = useState(false);
+  const [ringingAlerts, setRingingAlerts] = useState<RingingAlert[]>([]);
+  const [missedTaskIds, setMissedTaskIds] = useState<string[]>([]);
   const [installPrompt, setInstallPrompt] = useState<any>(null);
+  const [isUpdateAvailable, setIsUpdateAvailable] = useState(false);
   const [sortBy, setSortBy] = useState<SortOption>('manual');
+  const [activeView, setActiveView] = useState<string>(ALL_LISTS); // ALL_LISTS, INBOX or a list id
+  const [listEditor, setListEditor] = useState<{ list: TaskList | null } | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [csvFile, setCsvFile] = useState<{ name: string; text: string } | null>(null); // Waiting for column mapping
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [filter, setFilter] = useState<TaskFilter>(EMPTY_FILTER);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
   
   // Cloud State
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<SyncUser | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => syncService.getStatus());
   
-  const csvInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const lastTickRef = useRef<number>(loadLastTick());
+  // Last snapshot written to the repository, used to write only the changed records
+  const persistedTasksRef = useRef<Task[]>([]);
+  const persistedListsRef = useRef<TaskList[]>([]);
+  // Deleted task and list ids, exchanged with the cloud so deletions are not undone by other devices
+  const tombstonesRef = useRef<Tombstone[]>([]);
+  // Alarms ringing now, also read by the scheduler and the notification actions outside of renders
+  const ringingAlertsRef = useRef<RingingAlert[]>([]);
+
+  const updateRingingAlerts = (alerts: RingingAlert[]) => {
+    ringingAlertsRef.current = alerts;
+    setRingingAlerts(alerts);
+  };
 
   // Initialize Sync Service
   useEffect(() => {
-    if (settings.firebaseConfig && !syncService.isInitialized()) {
-        syncService.initialize(settings.firebaseConfig);
-    }
-    
-    // Listen to Auth
-    const unsub = syncService.onAuthChange((user) => {
-        setCurrentUser(user);
-    });
+    syncService.configure(settings);
+  }, [settings.syncProvider, settings.firebaseConfig, settings.restSyncConfig, settings.webdavSyncConfig]);
 
-    return () => unsub && unsub();
-  }, [settings.firebaseConfig]);
+  // Listen to Auth
+  useEffect(() => syncService.onAuthChange(setCurrentUser), []);
+
+  useEffect(() => syncService.onStatusChange(setSyncStatus), []);
 
   // Sync Logic: Subscribe to Cloud Tasks
   useEffect(() => {
-    if (currentUser) {
-        syncService.subscribeToTasks(currentUser, (cloudTasks) => {
-            // Simple conflict strategy: Cloud wins. 
-            // In a real app we might merge by ID or timestamp.
-            setTasks(cloudTasks);
+    if (currentUser && isLoaded) {
+        syncService.subscribeToTasks(currentUser, (remote) => {
+            tombstonesRef.current = mergeTombstones(remote.tombstones, tombstonesRef.current);
+            const deleted = new Set<string>(tombstonesRef.current.map(t => t.id));
+            // Field-level merge, following the cloud's order. Merging is idempotent, so it is
+            // safe for React to run these updaters twice.
+            setTasks(current => keepIfUnchanged(current, mergeRecords(remote.tasks, current, deleted)));
+            setLists(current => keepIfUnchanged(current, mergeRecords(remote.lists, current, deleted)));
         });
     }
-  }, [currentUser]);
+  }, [currentUser, isLoaded]);
 
   // Sync Logic: Save Local Changes to Cloud
   // Debounce saving to avoid too many writes
   useEffect(() => {
     const timeout = setTimeout(() => {
-        if (currentUser && syncService.isInitialized()) {
-            syncService.saveTasks(currentUser, tasks);
+        if (currentUser && isLoaded && syncService.isInitialized()) {
+            syncService.saveTasks(currentUser, { tasks, lists, tombstones: tombstonesRef.current });
         }
     }, 1000);
     return () => clearTimeout(timeout);
-  }, [tasks, currentUser]);
+  }, [tasks, lists, currentUser, isLoaded]);
 
   // Apply Theme
   useEffect(() => {
@@ -106,15 +151,50 @@ const App: React.FC = () => {
 
   // Persistence (Local)
   useEffect(() => {
-    localStorage.setItem('windo-tasks', JSON.stringify(tasks));
-  }, [tasks]);
+    if (!isLoaded) return;
+    const previous = persistedTasksRef.current;
+    const now = Date.now();
+
+    // Stamp local edits for sync merges; the stamped list comes back through this effect
+    const stamped = stampChanges(previous, tasks, now);
+    if (stamped !== tasks) {
+        setTasks(stamped);
+        return;
+    }
+
+    const tombstones = createTombstones(previous, tasks, tombstonesRef.current, now);
+    if (tombstones.length > 0) {
+        tombstonesRef.current = [...tombstonesRef.current, ...tombstones];
+    }
+    persistedTasksRef.current = tasks;
+    taskRepository.saveChanges(previous, tasks, tombstones).catch(e => {
+        console.error("Failed to save tasks:", e);
+    });
+  }, [tasks, isLoaded]);
 
   useEffect(() => {
-    try {
-        localStorage.setItem('windo-settings', JSON.stringify(settings));
-    } catch (e) {
-        console.error("Failed to save settings:", e);
+    if (!isLoaded) return;
+    const previous = persistedListsRef.current;
+    const now = Date.now();
+
+    const stamped = stampChanges(previous, lists, now);
+    if (stamped !== lists) {
+        setLists(stamped);
+        return;
+    }
+
+    const tombstones = createTombstones(previous, lists, tombstonesRef.current, now, 'list');
+    if (tombstones.length > 0) {
+        tombstonesRef.current = [...tombstonesRef.current, ...tombstones];
     }
+    persistedListsRef.current = lists;
+    listRepository.saveChanges(previous, lists, tombstones).catch(e => {
+        console.error("Failed to save lists:", e);
+    });
+  }, [lists, isLoaded]);
+
+  useEffect(() => {
+    saveSettings(settings);
   }, [settings]);
 
   // PWA Install Prompt Listener
@@ -127,45 +207,131 @@ const App: React.FC = () => {
     return () => window.removeEventListener('beforeinstallprompt', handler);
   }, []);
 
+  // Load tasks (migrating localStorage data on first run), then apply what the service worker
+  // recorded while no tab was open (alerts shown, Complete/Snooze clicks)
+  useEffect(() => {
+    const load = async () => {
+        try {
+            const stored = await taskRepository.getAll();
+            const storedLists = await listRepository.getAll();
+            tombstonesRef.current = await taskRepository.getTombstones();
+            const actions = await backgroundService.takePendingActions();
+            persistedTasksRef.current = stored;
+            persistedListsRef.current = storedLists;
+            setLists(storedLists);
+            setTasks(actions.length > 0 ? backgroundService.applyActions(stored, actions) : stored);
+            // Files of deleted tasks and discarded edits
+            attachmentRepository.prune(new Set(stored.flatMap(t => (t.attachments || []).map(a => a.id))))
+                .catch(e => console.error("Failed to clean up attachments:", e));
+        } catch (e) {
+            console.error("Failed to load tasks:", e);
+        }
+        setIsLoaded(true);
+    };
+    load();
+    backgroundService.registerPeriodicSync();
+  }, []);
+
+  // Hand the upcoming alerts to the service worker for when the tab is closed
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timeout = setTimeout(() => {
+        backgroundService.updateSchedule(applyQuietHoursToSchedule(buildSchedule(tasks, Date.now()), settings));
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [tasks, isLoaded, settings.quietHours, settings.quietHoursPolicy, settings.dndUntil]);
+
+  // Alarms held back by quiet hours move with them, e.g. when Do Not Disturb is turned off early
+  useEffect(() => {
+    if (!isLoaded) return;
+    setTasks(current => retimeDeferredTasks(current, settings, Date.now()));
+  }, [isLoaded, settings.quietHours, settings.quietHoursPolicy, settings.dndUntil]);
+
+  // New service worker version waiting to activate
+  useEffect(() => {
+    return pwaService.onUpdateAvailable(() => setIsUpdateAvailable(true));
+  }, []);
+
   // Timer Logic
+  // Compares due times against the previous tick, so reminders that fall into a long gap
+  // (closed tab, sleep, throttled timers) are caught up instead of silently skipped.
   useEffect(() => {
-    const interval = setInterval(() => {
-      const now = new Date();
-      // Format: YYYY-MM-DD
-      const currentDate = now.getFullYear() + '-' + String(now.getMonth() + 1).padStart(2, '0') + '-' + String(now.getDate()).padStart(2, '0');
-      // Format: HH:mm
-      const currentTime = now.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+    // Wait for stored tasks and background actions so alerts the worker already showed are not reported as missed
+    if (!isLoaded) return;
+
+    const runTick = () => {
+      const now = Date.now();
+      const lastTick = lastTickRef.current;
+      lastTickRef.current = now;
+      saveLastTick(now);
 
       setTasks(currentTasks => {
-        let hasChanges = false;
-        const updatedTasks = currentTasks.map(task => {
-          // Check Date AND Time
-          if (!task.completed && !task.notified && task.date === currentDate && task.time === currentTime) {
-            // Trigger Notification
-            setIsAlarmRinging(true);
-            audioService.playNotification(settings, task.title, () => {
-                setIsAlarmRinging(false);
+        const result = runSchedulerTick(currentTasks, lastTick, now, settings.autoComplete, task => getDeferUntil(settings, task.priority, now));
+        // Quiet hours let some alarms through and only notify silently for the rest
+        const audible = result.due.filter(({ task }) => getQuietAction(settings, task.priority, now) === 'ring');
+        result.due.forEach(({ task, leadMinutes }) => notificationService.show(task, leadMinutes, undefined, !audible.some(a => a.task === task)));
+
+        if (audible.length > 0) {
+            // Alarms still ringing are announced again together with the new ones
+            const alerts = mergeAlerts(ringingAlertsRef.current, audible.map(({ task, leadMinutes }) => ({ taskId: task.id, leadMinutes })));
+            const dueTasks = new Map(audible.map(({ task }) => [task.id, task]));
+            const ringing = alerts.flatMap(alert => {
+                const task = dueTasks.get(alert.taskId) || result.tasks.find(t => t.id === alert.taskId);
+                return task ? [{ task, leadMinutes: alert.leadMinutes }] : [];
             });
-            
-            if (Notification.permission === 'granted') {
-              new Notification(`Task Due: ${task.title}`);
-            }
-            hasChanges = true;
-            return { 
-                ...task, 
-                notified: true,
-                completed: settings.autoComplete ? true : task.completed
-            };
-          }
-          return task;
-        });
+            const urgent = getMostUrgent(ringing.map(r => r.task))!;
+            audioService.playNotification(
+                settings,
+                getAlarmSound(settings, urgent, findList(lists, urgent.listId)),
+                ringing.map(({ task, leadMinutes }) => getTaskAnnouncement(task, findList(lists, task.listId), leadMinutes, now)),
+                () => updateRingingAlerts([]),
+            );
+            // After playNotification, whose stop() ends the previous alarm and clears the queue
+            updateRingingAlerts(ringing.map(({ task, leadMinutes }) => ({ taskId: task.id, leadMinutes })));
+        }
+
+        if (result.missed.length > 0) {
+            const ids = result.missed.map(t => t.id);
+            setMissedTaskIds(prev => [...prev.filter(id => !ids.includes(id)), ...ids]);
+        }
         
-        return hasChanges ? updatedTasks : currentTasks;
+        return result.tasks;
       });
-    }, 1000);
+    };
 
-    return () => clearInterval(interval);
-  }, [settings]);
+    const interval = setInterval(runTick, 1000);
+
+    // Catch up immediately when the tab wakes up instead of waiting for a throttled interval
+    const handleVisibility = () => {
+        if (document.visibilityState === 'visible') runTick();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+        clearInterval(interval);
+        document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [settings, lists, isLoaded]);
+
+  // Snooze / open actions chosen on the system notification
+  useEffect(() => {
+    return notificationService.onAction(({ action, taskId }) => {
+        if (action === 'open-link') {
+            dismissAlert(taskId);
+            return;
+        }
+        if (action === 'complete') {
+            dismissAlert(taskId);
+            setTasks(current => current.map(t => t.id === taskId && !t.completed ? completeTask({ ...t, snoozedUntil: undefined }) : t));
+            return;
+        }
+        const option = action.startsWith('snooze-') ? getSnoozeOption(action.slice('snooze-'.length)) : undefined;
+        if (option) {
+            dismissAlert(taskId);
+            setTasks(current => current.map(t => t.id === taskId ? snoozeTask(t, option.getUntil(new Date())) : t));
+        }
+    });
+  }, []);
 
   // Request Notification Permission on mount
   useEffect(() => {
@@ -174,30 +340,75 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // A list deleted on another device falls back to all lists
+  const activeList = findList(lists, activeView);
+  const view = activeList || activeView === INBOX ? activeView : ALL_LISTS;
+  const now = new Date();
+  const isFiltering = isFilterActive(filter);
+  const activeSmartList = isFiltering ? settings.savedFilters.find(f => isSameFilter(f.filter, filter)) : undefined;
+
+  // Fields typed into the title fill the form, unless the user set them in the form
+  const quickAdd = parseQuickAdd(newTaskTitle, now, ignoredQuickAdd);
+  const fromText = (field: QuickAddField) => !manualFields.includes(field);
+  const taskTitle = quickAdd.title || newTaskTitle.trim();
+  const taskDate = (fromText('date') && quickAdd.date) || newTaskDate;
+  const taskTime = (fromText('time') && quickAdd.time) || newTaskTime;
+  const taskPriority = (fromText('priority') && quickAdd.priority) || newTaskPriority;
+  const taskRecurrence = (fromText('recurrence') && quickAdd.recurrence) || newTaskRecurrence;
+
+  const setManually = (field: QuickAddField) => {
+    if (!manualFields.includes(field)) setManualFields([...manualFields, field]);
+  };
+
   // Handlers
   const submitNewTask = () => {
-    if (!newTaskTitle.trim() || !newTaskTime || !newTaskDate) return;
+    if (!taskTitle || !taskTime || !taskDate) return;
 
     const newTask: Task = {
       id: crypto.randomUUID(),
-      title: newTaskTitle,
-      time: newTaskTime,
-      date: newTaskDate,
-      priority: newTaskPriority,
+      title: taskTitle,
+      time: taskTime,
+      date: taskDate,
+      priority: taskPriority,
       completed: false,
       createdAt: Date.now(),
+      ...(activeList ? { listId: activeList.id } : {}),
+      ...(quickAdd.tags.length > 0 ? { tags: quickAdd.tags } : {}),
+      ...(settings.defaultReminders.length > 0 ? { reminders: createReminders(settings.defaultReminders) } : {}),
+      ...(taskRecurrence ? { recurrence: taskRecurrence, occurrence: 1 } : {}),
     };
 
     setTasks([...tasks, newTask]);
     setNewTaskTitle('');
     setNewTaskTime('');
     setNewTaskDate(getTodayDate());
-    setNewTaskPriority('medium');
+    setNewTaskPriority(activeList?.defaultPriority || 'medium');
+    setNewTaskRecurrence(undefined);
+    setIsRecurrenceOpen(false);
+    setIgnoredQuickAdd([]);
+    setManualFields([]);
     
     // If user adds a task while sorting is active, it might jump. 
     // We keep the sort active.
   };
 
+  // Tasks suggested by the assistant, after review
+  const addDrafts = (drafts: ReviewedDraft[]) => {
+    const createdAt = Date.now();
+    const newTasks: Task[] = drafts.map(draft => ({
+      id: crypto.randomUUID(),
+      ...draft,
+      completed: false,
+      createdAt,
+      ...(activeList ? { listId: activeList.id } : {}),
+      ...(settings.defaultReminders.length > 0 ? { reminders: createReminders(settings.defaultReminders) } : {}),
+    }));
+    setTasks([...tasks, ...newTasks]);
+    setNewTaskTitle('');
+    setIgnoredQuickAdd([]);
+    setManualFields([]);
+  };
+
   const addTask = (e: React.FormEvent) => {
     e.preventDefault();
     submitNewTask();
@@ -212,29 +423,83 @@ const App: React.FC = () => {
 
   const stopAlarm = () => {
     audioService.stop();
-    setIsAlarmRinging(false);
+    updateRingingAlerts([]);
+  };
+
+  // Handles one alarm of the queue; the sound stops with the last one
+  const dismissAlert = (id: string) => {
+    const remaining = ringingAlertsRef.current.filter(alert => alert.taskId !== id);
+    if (remaining.length === ringingAlertsRef.current.length) return;
+    if (remaining.length === 0) stopAlarm();
+    else updateRingingAlerts(remaining);
+  };
+
+  const handleSnooze = (id: string, until: number) => {
+    dismissAlert(id);
+    notificationService.close(id);
+    setTasks(tasks.map(t => t.id === id ? snoozeTask(t, until) : t));
+  };
+
+  const finishTask = (task: Task) => {
+    notificationService.close(task.id);
+    audioService.playSuccessSound(settings.volume);
+    // Recurring tasks roll over to the next occurrence instead of completing
+    return completeTask({ ...task, snoozedUntil: undefined });
   };
 
   const toggleTask = (id: string) => {
-    if (isAlarmRinging) {
-        stopAlarm();
-    }
+    dismissAlert(id);
     setTasks(tasks.map(t => {
         if (t.id === id) {
-            const newCompleted = !t.completed;
-            if (newCompleted) {
-                audioService.playSuccessSound(settings.volume);
-            }
-            return { ...t, completed: newCompleted };
+            return t.completed ? { ...t, completed: false } : finishTask(t);
         }
         return t;
     }));
   };
 
-  const initiateDeleteTask = (id: string) => {
-    if (isAlarmRinging) {
-        stopAlarm();
+  const toggleTaskSubtask = (taskId: string, subtaskId: string) => {
+    setTasks(tasks.map(t => {
+        if (t.id !== taskId) return t;
+        const updated = toggleSubtask(t, subtaskId);
+        if (settings.completeWithSubtasks && !updated.completed && areSubtasksDone(updated)) {
+            dismissAlert(taskId);
+            return finishTask(updated);
+        }
+        return updated;
+    }));
+  };
+
+  const dismissMissed = (id: string) => {
+    setMissedTaskIds(prev => prev.filter(m => m !== id));
+  };
+
+  const completeMissedTask = (id: string) => {
+    dismissMissed(id);
+    const task = tasks.find(t => t.id === id);
+    if (task && !task.completed) toggleTask(id);
+  };
+
+  const snoozeMissedTask = (id: string, until: number) => {
+    dismissMissed(id);
+    handleSnooze(id, until);
+  };
+
+  const rescheduleMissedTask = (task: Task) => {
+    dismissMissed(task.id);
+    setEditingTask(task);
+  };
+
+  const completeRingingTask = (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (task && !task.completed) {
+        toggleTask(id);
+    } else {
+        dismissAlert(id);
     }
+  };
+
+  const initiateDeleteTask = (id: string) => {
+    dismissAlert(id);
     setTaskToDelete(id);
   };
 
@@ -246,9 +511,67 @@ const App: React.FC = () => {
   };
 
   const handleReorder = (newOrder: Task[]) => {
-    // Only works in manual mode for ongoing tasks
-    const completedTasks = tasks.filter(t => t.completed);
-    setTasks([...newOrder, ...completedTasks]);
+    // Only works in manual mode for ongoing tasks; tasks outside the current view keep their slots
+    const reordered = new Set(newOrder.map(t => t.id));
+    let index = 0;
+    setTasks(tasks.map(t => reordered.has(t.id) ? newOrder[index++] : t));
+  };
+
+  const selectView = (view: string) => {
+    setActiveView(view);
+    setNewTaskPriority(findList(lists, view)?.defaultPriority || 'medium');
+  };
+
+  const saveList = (list: TaskList) => {
+    const exists = lists.some(l => l.id === list.id);
+    setLists(exists ? lists.map(l => l.id === list.id ? list : l) : [...lists, list]);
+    if (!exists) selectView(list.id);
+    else if (list.id === activeView) setNewTaskPriority(list.defaultPriority);
+  };
+
+  const deleteList = (id: string) => {
+    setLists(lists.filter(l => l.id !== id));
+    // Tasks of a deleted list move to the Inbox
+    setTasks(tasks.map(t => t.listId === id ? { ...t, listId: undefined } : t));
+    if (activeView === id) selectView(ALL_LISTS);
+  };
+
+  // Turning Do Not Disturb on also silences the alarm that is ringing
+  const setDoNotDisturb = (dndUntil: number | null) => {
+    if (dndUntil) stopAlarm();
+    setSettings({ ...settings, dndUntil });
+  };
+
+  const saveSmartList = (name: string) => {
+    const saved: SavedFilter = { id: crypto.randomUUID(), name, filter: { ...filter, query: filter.query.trim() } };
+    setSettings({ ...settings, savedFilters: [...settings.savedFilters, saved] });
+  };
+
+  const deleteSmartList = (id: string) => {
+    setSettings({ ...settings, savedFilters: settings.savedFilters.filter(f => f.id !== id) });
+  };
+
+  // Selecting the active smart list again clears the filter
+  const toggleSmartList = (saved: SavedFilter) => {
+    setFilter(saved.id === activeSmartList?.id ? EMPTY_FILTER : saved.filter);
+  };
+
+  const filterByTag = (tag: string) => {
+    if (!filter.tags.includes(tag)) setFilter({ ...filter, tags: [...filter.tags, tag] });
+    setIsFilterOpen(true);
+  };
+
+  const applyPendingImport = ({ added, updated, listId, restoreSettings }: ImportSelection) => {
+    if (!pendingImport) return;
+    const { lists: listPlan, settings: restoredSettings } = pendingImport;
+    if (listPlan) {
+        setLists(prev => applyImport(prev, listPlan.added, listPlan.updated.map(u => u.after)));
+    }
+    setTasks(prev => applyImport(prev, added.map(t => listId && !t.listId ? { ...t, listId } : t), updated));
+    if (restoreSettings && restoredSettings) {
+        setSettings({ ...settings, ...restoredSettings });
+    }
+    setPendingImport(null);
   };
 
   const handleInstallClick = () => {
@@ -262,86 +585,52 @@ const App: React.FC = () => {
     }
   };
 
-  const downloadTemplate = () => {
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + "Title,Time,Date,Priority\n"
-      + "Buy Groceries,14:00,2023-12-25,medium\n"
-      + "Team Meeting,09:30,2023-12-26,high\n"
-      + "Walk Dog,18:00,,low"; // Example with missing date (defaults to today)
-      
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "windo_template.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  const handleImportCSV = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (event) => {
         const text = event.target?.result as string;
-        const lines = text.split('\n');
-        const newTasks: Task[] = [];
-        const today = getTodayDate();
-        
-        // Skip header if it exists
-        const startIndex = lines[0]?.toLowerCase().includes('title') ? 1 : 0;
-
-        for (let i = startIndex; i < lines.length; i++) {
-           const line = lines[i].trim();
-           if (!line) continue;
-
-           // Parse line: Title, Time, Date (opt), Priority (opt)
-           const parts = line.split(',').map(s => s.trim());
-           const title = parts[0];
-           const time = parts[1];
-           const dateInput = parts[2];
-           const priorityInput = parts[3]?.toLowerCase();
-
-           // Basic Validation
-           if (title && time && /^\d{1,2}:\d{2}$/.test(time)) {
-             // Normalize time to HH:mm
-             const [h, m] = time.split(':');
-             const formattedTime = `${h.padStart(2, '0')}:${m}`;
-
-             // Validate Date
-             let formattedDate = today;
-             if (dateInput && /^\d{4}-\d{2}-\d{2}$/.test(dateInput)) {
-                formattedDate = dateInput;
-             }
-
-             // Validate Priority
-             let validPriority: Priority = 'medium';
-             if (priorityInput === 'high' || priorityInput === 'low') {
-                validPriority = priorityInput as Priority;
-             }
-
-             newTasks.push({
-               id: crypto.randomUUID(),
-               title,
-               time: formattedTime,
-               date: formattedDate,
-               priority: validPriority,
-               completed: false,
-               createdAt: Date.now() + i // Slight offset to preserve import order in creation sort
-             });
-           }
-        }
+        const name = file.name.toLowerCase();
+        const deletedIds = new Set<string>(tombstonesRef.current.map(t => t.id));
+
+        try {
+          if (name.endsWith('.json') || text.trimStart().startsWith('{')) {
+            const backup = parseBackup(text);
+            setPendingImport({
+              fileName: file.name,
+              tasks: planImport(tasks, backup.tasks, deletedIds),
+              lists: planImport(lists, backup.lists, deletedIds),
+              settings: backup.settings,
+            });
+            return;
+          }
+
+          if (!name.endsWith('.ics') && !/^BEGIN:VCALENDAR/im.test(text)) {
+            setCsvFile({ name: file.name, text });
+            return;
+          }
 
-        if (newTasks.length > 0) {
-          setTasks(prev => [...prev, ...newTasks]);
-          alert(`Imported ${newTasks.length} tasks successfully.`);
-        } else {
-          alert('No valid tasks found. Format: Title, Time (HH:mm), [Date (YYYY-MM-DD)], [Priority]');
+          const imported = parseIcs(text);
+          if (imported.length === 0) {
+            alert('No events or to-dos with a title and date found in the calendar file.');
+            return;
+          }
+          setPendingImport({ fileName: file.name, tasks: planImport(tasks, imported, deletedIds, reconcileImportedTask) });
+        } catch (err) {
+          console.error("Failed to read import file:", err);
+          alert(err instanceof Error ? err.message : 'The file could not be read.');
         }
       };
       reader.readAsText(file);
     }
-    if (csvInputRef.current) csvInputRef.current.value = '';
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  const reviewCsvImport = (fileName: string, imported: Task[]) => {
+    const deletedIds = new Set<string>(tombstonesRef.current.map(t => t.id));
+    setCsvFile(null);
+    setPendingImport({ fileName, tasks: planImport(tasks, imported, deletedIds, reconcileImportedTask) });
   };
 
   // Sort Logic
@@ -368,8 +657,19 @@ const App: React.FC = () => {
     }
   };
 
-  const filteredTasks = tasks.filter(t => activeTab === 'ongoing' ? !t.completed : t.completed);
+  const ringingTasks = ringingAlerts.flatMap(alert => {
+    const task = tasks.find(t => t.id === alert.taskId);
+    return task ? [{ task, leadMinutes: alert.leadMinutes }] : [];
+  });
+  const missedTasks = missedTaskIds
+    .map(id => tasks.find(t => t.id === id))
+    .filter((t): t is Task => !!t && !t.completed);
+  const listIds = new Set<string>(lists.map(l => l.id));
+  const viewTasks = tasks.filter(t => isInView(t, view, listIds));
+  const tabTasks = viewTasks.filter(t => activeTab === 'ongoing' ? !t.completed : t.completed);
+  const filteredTasks = tabTasks.filter(t => matchesFilter(t, filter, now));
   const visibleTasks = getSortedTasks(filteredTasks);
+  const allTags = collectTags(tasks);
 
   return (
     <div className="min-h-screen p-4 sm:p-8 flex justify-center transition-colors duration-300">
@@ -378,26 +678,17 @@ const App: React.FC = () => {
         {/* Header */}
         <header className="flex items-center justify-between bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
           <div className="flex items-center gap-3">
-            <div className={`w-10 h-10 rounded-xl flex items-center justify-center text-white shadow-lg transition-colors ${isAlarmRinging ? 'bg-red-500 animate-pulse shadow-red-200 dark:shadow-red-900/50' : 'bg-blue-600 shadow-blue-200 dark:shadow-blue-900/50'}`}>
-                {isAlarmRinging ? <BellOff size={20} /> : <Bell size={20} />}
+            <div className={`w-10 h-10 rounded-xl flex items-center justify-center text-white shadow-lg transition-colors ${ringingAlerts.length > 0 ? 'bg-red-500 animate-pulse shadow-red-200 dark:shadow-red-900/50' : 'bg-blue-600 shadow-blue-200 dark:shadow-blue-900/50'}`}>
+                {ringingAlerts.length > 0 ? <BellOff size={20} /> : <Bell size={20} />}
             </div>
             <div>
                 <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-100 tracking-tight transition-colors">WinDo</h1>
                 <p className="text-xs text-slate-500 dark:text-slate-400 font-medium transition-colors">
-                    {currentUser ? `Synced: ${currentUser.email}` : 'Task Notification Manager'}
+                    {currentUser ? `Synced: ${currentUser.label}` : 'Task Notification Manager'}
                 </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {isAlarmRinging && (
-                <button
-                    onClick={stopAlarm}
-                    className="flex items-center gap-2 px-3 py-2 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/50 rounded-lg font-medium mr-2 animate-bounce transition-colors"
-                >
-                    <VolumeX size={18} /> Stop Alarm
-                </button>
-            )}
-
             {installPrompt && (
                 <button 
                   onClick={handleInstallClick}
@@ -408,31 +699,31 @@ const App: React.FC = () => {
                 </button>
             )}
 
+            <DoNotDisturbButton settings={settings} onChange={setDoNotDisturb} onOpenSettings={() => setIsSettingsOpen(true)} />
+
             {currentUser && (
-               <div className="text-blue-500 dark:text-blue-400 p-2" title="Cloud Sync Active">
-                  <Cloud size={20} />
-               </div>
+               <SyncStatusIndicator status={syncStatus} onRetry={() => syncService.retryNow()} />
             )}
             
             <button 
-              onClick={downloadTemplate}
+              onClick={() => setIsExportOpen(true)}
               className="p-2 text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all"
-              title="Download CSV Template"
+              title="Export"
             >
               <Download size={20} />
             </button>
 
             <input 
               type="file" 
-              accept=".csv" 
-              ref={csvInputRef} 
+              accept=".json,.csv,.ics" 
+              ref={importInputRef} 
               className="hidden" 
-              onChange={handleImportCSV} 
+              onChange={handleImportFile} 
             />
             <button 
-              onClick={() => csvInputRef.current?.click()}
+              onClick={() => importInputRef.current?.click()}
               className="p-2 text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all"
-              title="Import CSV"
+              title="Import (JSON backup, CSV or iCalendar)"
             >
               <FileInput size={20} />
             </button>
@@ -446,29 +737,45 @@ const App: React.FC = () => {
           </div>
         </header>
 
+        {/* Ringing Alarm */}
+        {ringingTasks.length > 0 && (
+            <AlarmBanner 
+                alerts={ringingTasks} 
+                onStop={stopAlarm} 
+                onDismiss={dismissAlert} 
+                onComplete={completeRingingTask} 
+                onSnooze={handleSnooze} 
+            />
+        )}
+
         {/* Input Area */}
         <form onSubmit={addTask} className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 flex flex-col gap-3 transition-colors">
           <input
             type="text"
-            placeholder="What needs to be done?"
+            placeholder="What needs to be done? e.g. Call dentist tomorrow 3pm !high #personal"
             value={newTaskTitle}
             onChange={(e) => setNewTaskTitle(e.target.value)}
             onKeyDown={handleInputKeyDown}
             className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all placeholder:text-slate-400 text-slate-800 dark:text-slate-100"
           />
+          <QuickAddPreview
+            result={quickAdd}
+            overridden={manualFields}
+            onDismiss={(field) => setIgnoredQuickAdd([...ignoredQuickAdd, field])}
+          />
           <div className="flex flex-col sm:flex-row gap-3">
             <div className="flex-1 flex gap-2">
                  <DatePicker 
-                    value={newTaskDate} 
-                    onChange={setNewTaskDate} 
+                    value={taskDate} 
+                    onChange={(value) => { setNewTaskDate(value); setManually('date'); }} 
                     onKeyDown={handleInputKeyDown}
                     className="flex-1"
                  />
                  <div className="relative w-32">
                     <input
                         type="time"
-                        value={newTaskTime}
-                        onChange={(e) => setNewTaskTime(e.target.value)}
+                        value={taskTime}
+                        onChange={(e) => { setNewTaskTime(e.target.value); setManually('time'); }}
                         onKeyDown={handleInputKeyDown}
                         className="w-full px-3 py-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all text-slate-600 dark:text-slate-300 font-mono color-scheme-dark"
                     />
@@ -479,13 +786,13 @@ const App: React.FC = () => {
                 <div className="relative w-36 sm:w-32">
                     <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                         <Flag size={16} className={`${
-                            newTaskPriority === 'high' ? 'text-red-500' : 
-                            newTaskPriority === 'medium' ? 'text-amber-500' : 'text-blue-500'
+                            taskPriority === 'high' ? 'text-red-500' : 
+                            taskPriority === 'medium' ? 'text-amber-500' : 'text-blue-500'
                         }`} />
                     </div>
                     <select
-                        value={newTaskPriority}
-                        onChange={(e) => setNewTaskPriority(e.target.value as Priority)}
+                        value={taskPriority}
+                        onChange={(e) => { setNewTaskPriority(e.target.value as Priority); setManually('priority'); }}
                         className="w-full pl-9 pr-8 py-2.5 appearance-none bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all text-slate-600 dark:text-slate-300 font-medium cursor-pointer"
                     >
                         <option value="low">Low</option>
@@ -493,10 +800,34 @@ const App: React.FC = () => {
                         <option value="high">High</option>
                     </select>
                 </div>
+
+                <button
+                    type="button"
+                    onClick={() => setIsRecurrenceOpen(!isRecurrenceOpen)}
+                    title={taskRecurrence ? 'Repeats' : 'Repeat'}
+                    className={`p-2.5 rounded-lg border transition-all ${
+                        taskRecurrence || isRecurrenceOpen
+                        ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-600 dark:text-blue-400'
+                        : 'bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-600 text-slate-400 hover:text-blue-600 dark:hover:text-blue-400'
+                    }`}
+                >
+                    <Repeat size={18} />
+                </button>
+
+                {assistantService.isAvailable() && (
+                    <button
+                        type="button"
+                        onClick={() => setIsAssistantOpen(true)}
+                        title="Assistant"
+                        className="p-2.5 rounded-lg border bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-600 text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-all"
+                    >
+                        <WandSparkles size={18} />
+                    </button>
+                )}
                 
                 <button 
                     type="submit"
-                    disabled={!newTaskTitle || !newTaskTime || !newTaskDate}
+                    disabled={!taskTitle || !taskTime || !taskDate}
                     title="Add Task (Ctrl+Enter)"
                     className="flex-1 sm:flex-initial bg-blue-600 hover:bg-blue-700 dark:bg-blue-600 dark:hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2.5 rounded-lg font-medium transition-all shadow-md shadow-blue-200 dark:shadow-none flex items-center justify-center gap-2"
                 >
@@ -504,12 +835,29 @@ const App: React.FC = () => {
                 </button>
             </div>
           </div>
+
+          {isRecurrenceOpen && (
+            <RecurrenceEditor 
+                value={taskRecurrence} 
+                onChange={(rule) => { setNewTaskRecurrence(rule); setManually('recurrence'); }} 
+                date={taskDate} 
+            />
+          )}
         </form>
 
         {/* Tabs & List */}
         <div className="flex-1 flex flex-col">
+            <ListSwitcher
+                lists={lists}
+                tasks={tasks}
+                activeView={view}
+                onSelect={selectView}
+                onCreate={() => setListEditor({ list: null })}
+                onEdit={(list) => setListEditor({ list })}
+            />
+
             <div className="flex items-center justify-between mb-4 border-b border-slate-200 dark:border-slate-700 px-2 transition-colors">
-                <div className="flex gap-1">
+                <div className="flex gap-1 overflow-x-auto">
                     <button 
                         onClick={() => setActiveTab('ongoing')}
                         className={`px-4 py-2 text-sm font-medium rounded-t-lg transition-all border-b-2 ${
@@ -518,7 +866,7 @@ const App: React.FC = () => {
                             : 'text-slate-500 dark:text-slate-400 border-transparent hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800/50'
                         }`}
                     >
-                        Ongoing ({tasks.filter(t => !t.completed).length})
+                        Ongoing ({viewTasks.filter(t => !t.completed).length})
                     </button>
                     <button 
                         onClick={() => setActiveTab('completed')}
@@ -528,12 +876,37 @@ const App: React.FC = () => {
                             : 'text-slate-500 dark:text-slate-400 border-transparent hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800/50'
                         }`}
                     >
-                        Completed ({tasks.filter(t => t.completed).length})
+                        Completed ({viewTasks.filter(t => t.completed).length})
                     </button>
+                    {settings.savedFilters.map(saved => (
+                        <button 
+                            key={saved.id}
+                            onClick={() => toggleSmartList(saved)}
+                            title={activeSmartList?.id === saved.id ? 'Clear smart list' : `Show "${saved.name}"`}
+                            className={`flex items-center gap-1.5 px-4 py-2 text-sm font-medium rounded-t-lg transition-all border-b-2 whitespace-nowrap ${
+                                activeSmartList?.id === saved.id 
+                                ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-500 bg-white dark:bg-slate-800' 
+                                : 'text-slate-500 dark:text-slate-400 border-transparent hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800/50'
+                            }`}
+                        >
+                            <Sparkles size={14} /> {saved.name} ({tabTasks.filter(t => matchesFilter(t, saved.filter, now)).length})
+                        </button>
+                    ))}
                 </div>
 
-                {/* Sort Control */}
-                <div className="flex items-center gap-2 pb-1.5">
+                {/* Filter & Sort Controls */}
+                <div className="flex items-center gap-2 pb-1.5 shrink-0">
+                     <button
+                        onClick={() => setIsFilterOpen(!isFilterOpen)}
+                        className={`p-1.5 rounded-md transition-all ${
+                            isFiltering || isFilterOpen
+                            ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30'
+                            : 'text-slate-400 hover:text-blue-600 dark:hover:text-blue-400'
+                        }`}
+                        title="Filter Tasks"
+                     >
+                        <ListFilter size={16} />
+                     </button>
                      <ArrowUpDown size={14} className="text-slate-400" />
                      <select 
                         value={sortBy}
@@ -548,10 +921,21 @@ const App: React.FC = () => {
                 </div>
             </div>
             
+            {isFilterOpen && (
+                <FilterBar
+                    filter={filter}
+                    onChange={setFilter}
+                    tags={allTags}
+                    savedFilter={activeSmartList}
+                    onSave={saveSmartList}
+                    onDeleteSaved={deleteSmartList}
+                />
+            )}
+            
             {visibleTasks.length === 0 ? (
                 <div className="text-center py-12 opacity-50 bg-white/50 dark:bg-slate-800/50 rounded-xl border border-dashed border-slate-300 dark:border-slate-600 transition-colors">
                     <p className="text-slate-500 dark:text-slate-400">
-                        {activeTab === 'ongoing' ? "No tasks scheduled." : "No completed tasks yet."}
+                        {isFiltering ? "No tasks match the filter." : activeTab === 'ongoing' ? "No tasks scheduled." : "No completed tasks yet."}
                     </p>
                 </div>
             ) : (
@@ -567,6 +951,9 @@ const App: React.FC = () => {
                                     onDelete={initiateDeleteTask}
                                     onEdit={setEditingTask}
                                     isReorderable={true}
+                                    list={view === ALL_LISTS ? findList(lists, task.listId) : undefined}
+                                    onTagClick={filterByTag}
+                                    onToggleSubtask={toggleTaskSubtask}
                                 />
                             ))}
                         </Reorder.Group>
@@ -580,6 +967,9 @@ const App: React.FC = () => {
                                     onDelete={initiateDeleteTask}
                                     onEdit={setEditingTask}
                                     isReorderable={false}
+                                    list={view === ALL_LISTS ? findList(lists, task.listId) : undefined}
+                                    onTagClick={filterByTag}
+                                    onToggleSubtask={toggleTaskSubtask}
                                 />
                             ))}
                          </div>
@@ -602,12 +992,72 @@ const App: React.FC = () => {
         isOpen={!!editingTask}
         onClose={() => setEditingTask(null)}
         task={editingTask}
+        lists={lists}
+        allTags={allTags}
         onSave={(updatedTask) => {
             setTasks(tasks.map(t => t.id === updatedTask.id ? updatedTask : t));
             setEditingTask(null);
         }}
       />
 
+      <ListEditorModal
+        isOpen={!!listEditor}
+        onClose={() => setListEditor(null)}
+        list={listEditor?.list || null}
+        settings={settings}
+        onSave={saveList}
+        onDelete={deleteList}
+      />
+
+      <CsvImportModal
+        file={csvFile}
+        onClose={() => setCsvFile(null)}
+        lists={lists}
+        onContinue={reviewCsvImport}
+      />
+
+      <ImportPreviewModal
+        pending={pendingImport}
+        onClose={() => setPendingImport(null)}
+        lists={lists}
+        defaultListId={activeList?.id}
+        onApply={applyPendingImport}
+      />
+
+      {assistantService.isAvailable() && (
+        <AssistantModal
+          isOpen={isAssistantOpen}
+          onClose={() => setIsAssistantOpen(false)}
+          initialText={newTaskTitle.trim()}
+          defaults={{ date: taskDate, time: taskTime, priority: taskPriority }}
+          onAdd={addDrafts}
+        />
+      )}
+
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        tasks={tasks}
+        lists={lists}
+        settings={settings}
+      />
+
+      <MissedRemindersModal
+        isOpen={missedTasks.length > 0 && !editingTask}
+        onClose={() => setMissedTaskIds([])}
+        tasks={missedTasks}
+        onComplete={completeMissedTask}
+        onSnooze={snoozeMissedTask}
+        onReschedule={rescheduleMissedTask}
+      />
+
+      {isUpdateAvailable && (
+        <UpdateToast 
+            onUpdate={() => pwaService.applyUpdate()} 
+            onDismiss={() => setIsUpdateAvailable(false)} 
+        />
+      )}
+
       <ConfirmationModal 
         isOpen={!!taskToDelete}
         onClose={() => setTaskToDelete(null)}
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { BellRing, CheckCircle2, VolumeX, AlarmClock, Video } from 'lucide-react';
+import { SNOOZE_OPTIONS } from '../utils/snooze';
+import { formatDate, formatTime } from '../utils/date';
+import { formatLeadTime } from '../utils/reminders';
+import { getMeetingUrl } from '../utils/links';
+
+interface RingingTask {
+  task: Task;
+  leadMinutes: number; // > 0 for an advance reminder
+}
+
+interface AlarmBannerProps {
+  alerts: RingingTask[];
+  onStop: () => void; // Silences and dismisses all of them
+  onDismiss: (id: string) => void;
+  onComplete: (id: string) => void;
+  onSnooze: (id: string, until: number) => void;
+}
+
+interface AlarmItemProps extends RingingTask {
+  onDismiss: (id: string) => void;
+  onComplete: (id: string) => void;
+  onSnooze: (id: string, until: number) => void;
+}
+
+const AlarmItem: React.FC<AlarmItemProps> = ({ task, leadMinutes, onDismiss, onComplete, onSnooze }) => {
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [customValue, setCustomValue] = useState('');
+  const meetingUrl = getMeetingUrl(task);
+
+  const openCustom = () => {
+    // Default the picker to one hour from now
+    const d = new Date(Date.now() + 60 * 60 * 1000);
+    setCustomValue(`${formatDate(d)}T${formatTime(d)}`);
+    setIsCustomOpen(true);
+  };
+
+  const submitCustom = () => {
+    const until = new Date(customValue).getTime();
+    if (!isNaN(until) && until > Date.now()) {
+      onSnooze(task.id, until);
+      setIsCustomOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium text-red-600 dark:text-red-400 uppercase tracking-wide">
+            {leadMinutes > 0 ? `Due in ${formatLeadTime(leadMinutes)}` : 'Task due'}
+          </p>
+          <p className="font-semibold text-slate-800 dark:text-slate-100 truncate">{task.title}</p>
+        </div>
+        {meetingUrl && (
+          <a
+            href={meetingUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => onDismiss(task.id)}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Video size={16} /> Open Link
+          </a>
+        )}
+        <button
+          onClick={() => onComplete(task.id)}
+          className="flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          <CheckCircle2 size={16} /> Complete
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+          <AlarmClock size={14} /> Snooze
+        </span>
+        {SNOOZE_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onSnooze(task.id, option.getUntil(new Date()))}
+            className="px-2.5 py-1 text-xs font-medium rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+          >
+            {option.label}
+          </button>
+        ))}
+        {isCustomOpen ? (
+          <div className="flex items-center gap-2">
+            <input
+              type="datetime-local"
+              value={customValue}
+              onChange={(e) => setCustomValue(e.target.value)}
+              className="px-2 py-1 text-xs bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-md text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 color-scheme-dark"
+            />
+            <button
+              onClick={submitCustom}
+              className="px-2.5 py-1 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              Set
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={openCustom}
+            className="px-2.5 py-1 text-xs font-medium rounded-md text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
+          >
+            Custom...
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const AlarmBanner: React.FC<AlarmBannerProps> = ({ alerts, onStop, onDismiss, onComplete, onSnooze }) => (
+  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 p-4 rounded-xl shadow-sm flex flex-col gap-3 animate-in slide-in-from-top-2 duration-300">
+    <div className="flex items-center gap-3">
+      <div className="w-9 h-9 shrink-0 rounded-lg bg-red-500 text-white flex items-center justify-center animate-pulse">
+        <BellRing size={18} />
+      </div>
+      <p className="flex-1 font-semibold text-red-700 dark:text-red-300">
+        {alerts.length > 1 ? `${alerts.length} alarms ringing` : 'Alarm ringing'}
+      </p>
+      <button
+        onClick={onStop}
+        className="flex items-center gap-2 px-3 py-2 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/50 rounded-lg text-sm font-medium transition-colors"
+      >
+        <VolumeX size={16} /> {alerts.length > 1 ? 'Stop All' : 'Stop'}
+      </button>
+    </div>
+
+    <div className="flex flex-col divide-y divide-red-200 dark:divide-red-800/50">
+      {alerts.map(alert => (
+        <div key={alert.task.id} className="py-3 first:pt-0 last:pb-0">
+          <AlarmItem {...alert} onDismiss={onDismiss} onComplete={onComplete} onSnooze={onSnooze} />
+        </div>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { ListTree, CalendarClock, FileText, Loader2, WandSparkles } from 'lucide-react';
+import { Priority } from '../types';
+import { Modal } from './ui/Modal';
+import { assistantService, TaskDraft } from '../services/assistantService';
+
+type AssistantMode = 'breakdown' | 'schedule' | 'extract';
+
+// A draft in the review list; every field is filled in before it can be added
+export type ReviewedDraft = Required<TaskDraft>;
+
+interface AssistantModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialText: string; // Text of the quick add field
+  defaults: { date: string; time: string; priority: Priority }; // For fields the model left out
+  onAdd: (drafts: ReviewedDraft[]) => void;
+}
+
+interface ReviewRow extends ReviewedDraft {
+  key: number;
+  included: boolean;
+}
+
+const MODES: { value: AssistantMode; label: string; icon: React.ReactNode; placeholder: string }[] = [
+  { value: 'breakdown', label: 'Break Down', icon: <ListTree size={24} className="mb-2" />, placeholder: 'e.g. Plan the team offsite' },
+  { value: 'schedule', label: 'Schedule', icon: <CalendarClock size={24} className="mb-2" />, placeholder: 'e.g. Renew passport before the trip' },
+  { value: 'extract', label: 'From Text', icon: <FileText size={24} className="mb-2" />, placeholder: 'Paste notes or an email' },
+];
+
+const inputClass = "px-2 py-1.5 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all";
+
+export const AssistantModal: React.FC<AssistantModalProps> = ({ isOpen, onClose, initialText, defaults, onAdd }) => {
+  const [mode, setMode] = useState<AssistantMode>('breakdown');
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setText(initialText);
+      setMode(initialText.length > 120 ? 'extract' : 'breakdown');
+      setRows(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const ask = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const drafts = mode === 'breakdown' ? await assistantService.breakDownTask(text)
+        : mode === 'schedule' ? [await assistantService.suggestSchedule(text)]
+        : await assistantService.extractTasks(text);
+      if (drafts.length === 0) {
+        setError("The assistant did not find any tasks.");
+        return;
+      }
+      setRows(drafts.map((draft, key) => ({ ...defaults, ...draft, key, included: true })));
+    } catch (e) {
+      console.error("Assistant request failed:", e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateRow = (key: number, changes: Partial<ReviewRow>) => {
+    setRows(current => current && current.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const included = rows?.filter(row => row.included) || [];
+  const isComplete = included.length > 0 && included.every(row => row.title.trim() && row.date && row.time);
+
+  const handleAdd = () => {
+    onAdd(included.map(({ title, date, time, priority }) => ({ title: title.trim(), date, time, priority })));
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Assistant" maxWidth="max-w-2xl">
+      {!rows ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            {MODES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setMode(option.value)}
+                className={`flex flex-col items-center p-3 rounded-lg border transition-all ${
+                  mode === option.value
+                    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+                    : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
+                }`}
+              >
+                {option.icon}
+                <span className="text-xs font-medium">{option.label}</span>
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={mode === 'extract' ? 8 : 2}
+            placeholder={MODES.find(option => option.value === mode)?.placeholder}
+            className={`${inputClass} w-full px-4 py-2.5 resize-y placeholder:text-slate-400`}
+            autoFocus
+          />
+
+          {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={ask}
+              disabled={isBusy || !text.trim()}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg shadow-sm transition-colors"
+            >
+              {isBusy ? <Loader2 size={16} className="animate-spin" /> : <WandSparkles size={16} />}
+              {isBusy ? 'Thinking…' : 'Suggest Tasks'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Review the suggestions. Only checked tasks are added.
+          </p>
+
+          <div className="space-y-2">
+            {rows.map(row => (
+              <div key={row.key} className={`flex flex-wrap sm:flex-nowrap items-center gap-2 transition-opacity ${row.included ? '' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={row.included}
+                  onChange={(e) => updateRow(row.key, { included: e.target.checked })}
+                  className="w-4 h-4 accent-blue-600 shrink-0"
+                />
+                <input
+                  type="text"
+                  value={row.title}
+                  onChange={(e) => updateRow(row.key, { title: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-[10rem]`}
+                />
+                <input
+                  type="date"
+                  value={row.date}
+                  onChange={(e) => updateRow(row.key, { date: e.target.value })}
+                  className={`${inputClass} color-scheme-dark`}
+                />
+                <input
+                  type="time"
+                  value={row.time}
+                  onChange={(e) => updateRow(row.key, { time: e.target.value })}
+                  className={`${inputClass} font-mono color-scheme-dark`}
+                />
+                <select
+                  value={row.priority}
+                  onChange={(e) => updateRow(row.key, { priority: e.target.value as Priority })}
+                  className={`${inputClass} cursor-pointer`}
+                >
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              onClick={() => setRows(null)}
+              className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!isComplete}
+              title={isComplete ? undefined : 'Every checked task needs a title, date and time'}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg shadow-sm transition-colors"
+            >
+              Add {included.length} Task{included.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
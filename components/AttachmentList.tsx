@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { Paperclip, X, FileText, Loader2 } from 'lucide-react';
+import { Attachment } from '../types';
+import { attachmentRepository, MAX_ATTACHMENT_BYTES } from '../services/attachmentRepository';
+
+interface AttachmentListProps {
+  value: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ value, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    if (inputRef.current) inputRef.current.value = '';
+
+    const tooLarge = files.filter(f => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      alert(`Files larger than ${formatSize(MAX_ATTACHMENT_BYTES)} cannot be attached: ${tooLarge.map(f => f.name).join(', ')}`);
+    }
+
+    const accepted = files.filter(f => f.size <= MAX_ATTACHMENT_BYTES);
+    if (accepted.length === 0) return;
+    setIsAdding(true);
+    try {
+      const added = await Promise.all(accepted.map(f => attachmentRepository.add(f)));
+      onChange([...value, ...added]);
+    } catch (err) {
+      console.error("Failed to store attachment:", err);
+      alert("The file could not be saved. The browser may be out of storage space.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const openAttachment = async (attachment: Attachment) => {
+    const blob = await attachmentRepository.get(attachment.id);
+    if (!blob) {
+      alert(`"${attachment.name}" is stored on the device it was attached on.`);
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.target = '_blank';
+    link.rel = 'noopener';
+    // Files the browser cannot show are downloaded under their name instead
+    if (!/^(image|text|audio|video)\/|\/pdf$/.test(attachment.type)) link.download = attachment.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map(attachment => (
+        <div key={attachment.id} className="flex items-center gap-2 px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg">
+          <FileText size={16} className="shrink-0 text-slate-400" />
+          <button
+            type="button"
+            onClick={() => openAttachment(attachment)}
+            className="flex-1 min-w-0 text-left text-sm text-blue-600 dark:text-blue-400 hover:underline truncate"
+            title="Open"
+          >
+            {attachment.name}
+          </button>
+          <span className="text-xs text-slate-400 whitespace-nowrap">{formatSize(attachment.size)}</span>
+          <button
+            type="button"
+            onClick={() => onChange(value.filter(a => a.id !== attachment.id))}
+            className="p-1 text-slate-400 hover:text-red-500 dark:hover:text-red-400 rounded transition-colors"
+            title="Remove Attachment"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+
+      <input type="file" multiple ref={inputRef} onChange={handleFiles} className="hidden" />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={isAdding}
+        className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50 rounded-md transition-colors"
+      >
+        {isAdding ? <Loader2 size={14} className="animate-spin" /> : <Paperclip size={14} />}
+        Attach File
+      </button>
+    </div>
+  );
+};
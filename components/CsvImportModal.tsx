@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle2, Columns3, Rows3 } from 'lucide-react';
+import { Task, TaskList } from '../types';
+import { Modal } from './ui/Modal';
+import {
+  CSV_COLUMNS, CsvColumn, CsvMapping, CsvRowFixes, CsvTable,
+  detectDateOrder, guessMapping, parseCsvRow, readCsvTable,
+} from '../utils/taskCsv';
+import { DateOrder, getLocaleDateOrder, getTodayDate } from '../utils/date';
+
+type CsvStep = 'columns' | 'rows';
+
+interface CsvImportModalProps {
+  file: { name: string; text: string } | null;
+  onClose: () => void;
+  lists: TaskList[];
+  onContinue: (fileName: string, tasks: Task[]) => void; // Hands the rows to the import preview
+}
+
+const COLUMN_LABELS: Record<CsvColumn, string> = {
+  Title: 'Title', Time: 'Time', Date: 'Date', Priority: 'Priority', Subtasks: 'Checklist', Completed: 'Completed',
+  Created: 'Created', Id: 'Id', List: 'List', Tags: 'Tags', Notes: 'Notes', Recurrence: 'Repeat', Reminders: 'Reminders',
+};
+
+const DATE_ORDERS: { value: DateOrder; label: string }[] = [
+  { value: 'ymd', label: 'Year-Month-Day (2024-12-31)' },
+  { value: 'dmy', label: 'Day/Month/Year (31/12/2024)' },
+  { value: 'mdy', label: 'Month/Day/Year (12/31/2024)' },
+];
+
+const selectClass = "w-full px-2 py-1.5 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all cursor-pointer";
+const inputClass = "w-full px-2 py-1 text-sm bg-white dark:bg-slate-900 border border-red-300 dark:border-red-700 text-slate-800 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all";
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({ file, onClose, lists, onContinue }) => {
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [step, setStep] = useState<CsvStep>('columns');
+  const [mapping, setMapping] = useState<CsvMapping>({});
+  const [dateOrder, setDateOrder] = useState<DateOrder>('ymd');
+  const [fixes, setFixes] = useState<Record<number, CsvRowFixes>>({});
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+  const [onlyIssues, setOnlyIssues] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    const parsed = readCsvTable(file.text);
+    const guessed = guessMapping(parsed);
+    const dateIndex = guessed.Date;
+    setTable(parsed);
+    setMapping(guessed);
+    setDateOrder(detectDateOrder(dateIndex !== undefined ? parsed.rows.map(row => row[dateIndex] || '') : [], getLocaleDateOrder()));
+    setFixes({});
+    setSkipped(new Set());
+    setOnlyIssues(false);
+    setStep('columns');
+  }, [file]);
+
+  if (!file || !table) return null;
+
+  const options = { mapping, dateOrder, lists, today: getTodayDate(), now: Date.now() };
+  const results = table.rows.map((row, i) => parseCsvRow(row, i, options, fixes[i]));
+  const ready = results.filter((result, i) => result.task && !skipped.has(i));
+  const failing = results.filter((result, i) => result.issues.length > 0 && !skipped.has(i)).length;
+  const visibleRows = results.map((result, i) => ({ result, i })).filter(({ result }) => !onlyIssues || result.issues.length > 0);
+
+  const setColumn = (column: CsvColumn, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[column];
+    else next[column] = Number(value);
+    setMapping(next);
+  };
+
+  const setFix = (row: number, column: CsvColumn, value: string) => {
+    setFixes({ ...fixes, [row]: { ...fixes[row], [column]: value } });
+  };
+
+  const toggleSkip = (row: number) => {
+    const next = new Set<number>(skipped);
+    if (next.has(row)) next.delete(row);
+    else next.add(row);
+    setSkipped(next);
+  };
+
+  const skipFailing = () => {
+    setSkipped(new Set<number>([...skipped, ...results.flatMap((result, i) => result.issues.length > 0 ? [i] : [])]));
+  };
+
+  // First non-empty value of a file column, so headerless files can still be mapped
+  const sample = (index: number) => table.rows.find(row => row[index]?.trim())?.[index]?.trim();
+
+  const cellValue = (row: string[], i: number, column: CsvColumn) => {
+    if (fixes[i]?.[column] !== undefined) return fixes[i][column];
+    const index = mapping[column];
+    return index !== undefined ? row[index] || '' : '';
+  };
+
+  const renderColumns = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Choose which column of <span className="font-medium text-slate-700 dark:text-slate-200">{file.name}</span> fills each field.
+        {!table.hasHeader && ' The file has no header row, so columns are numbered.'}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+        {CSV_COLUMNS.map(column => (
+          <label key={column} className="flex items-center gap-2">
+            <span className="w-24 shrink-0 text-sm font-medium text-slate-700 dark:text-slate-300">
+              {COLUMN_LABELS[column]}{(column === 'Title' || column === 'Time') && <span className="text-red-500">*</span>}
+            </span>
+            <select
+              value={mapping[column] ?? ''}
+              onChange={(e) => setColumn(column, e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Not imported</option>
+              {table.headers.map((header, index) => {
+                const example = sample(index);
+                return (
+                  <option key={index} value={index}>
+                    {header}{example && example !== header ? ` (e.g. ${example.slice(0, 24)})` : ''}
+                  </option>
+                );
+              })}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Date format</label>
+        <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder)} className={selectClass}>
+          {DATE_ORDERS.map(order => (
+            <option key={order.value} value={order.value}>{order.label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+          Detected from the file where possible. Written-out dates and times like 2:30 PM are read either way.
+        </p>
+      </div>
+    </div>
+  );
+
+  const renderRows = () => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="text-slate-600 dark:text-slate-400">
+          {ready.length} ready, {failing} with problems, {skipped.size} skipped.
+        </p>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-slate-600 dark:text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyIssues}
+              onChange={(e) => setOnlyIssues(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            Only problems
+          </label>
+          {failing > 0 && (
+            <button onClick={skipFailing} className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline">
+              Skip all problems
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="max-h-[50vh] overflow-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            <tr>
+              <th className="px-2 py-1.5 text-left font-semibold">Import</th>
+              <th className="px-2 py-1.5 text-left font-semibold">Line</th>
+              <th className="px-2 py-1.5 text-left font-semibold">Title</th>
+              <th className="px-2 py-1.5 text-left font-semibold">Date</th>
+              <th className="px-2 py-1.5 text-left font-semibold">Time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {visibleRows.map(({ result, i }) => {
+              const row = table.rows[i];
+              const isSkipped = skipped.has(i);
+              return (
+                <tr key={i} className={`align-top ${isSkipped ? 'opacity-50' : ''}`}>
+                  <td className="px-2 py-1.5">
+                    <input
+                      type="checkbox"
+                      checked={!isSkipped}
+                      onChange={() => toggleSkip(i)}
+                      className="w-4 h-4 accent-blue-600"
+                    />
+                  </td>
+                  <td className="px-2 py-1.5 font-mono text-xs text-slate-400">{i + (table.hasHeader ? 2 : 1)}</td>
+                  {result.task ? (
+                    <>
+                      <td className="px-2 py-1.5 text-slate-700 dark:text-slate-200">
+                        <span className="flex items-center gap-1">
+                          <CheckCircle2 size={14} className="text-green-500 shrink-0" /> {result.task.title}
+                        </span>
+                      </td>
+                      <td className="px-2 py-1.5 font-mono text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">{result.task.date}</td>
+                      <td className="px-2 py-1.5 font-mono text-xs text-slate-500 dark:text-slate-400">{result.task.time}</td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="px-2 py-1.5">
+                      <p className="text-slate-700 dark:text-slate-200 truncate">{cellValue(row, i, 'Title') || <em className="text-slate-400">Untitled</em>}</p>
+                      {!isSkipped && result.issues.map(issue => (
+                        <div key={issue.column} className="mt-1">
+                          <p className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+                            <AlertCircle size={12} className="shrink-0" /> {issue.message}
+                          </p>
+                          <input
+                            type="text"
+                            value={cellValue(row, i, issue.column)}
+                            onChange={(e) => setFix(i, issue.column, e.target.value)}
+                            placeholder={COLUMN_LABELS[issue.column]}
+                            className={`${inputClass} mt-0.5`}
+                          />
+                        </div>
+                      ))}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <p className="p-4 text-center text-sm text-slate-500 dark:text-slate-400">
+            {table.rows.length === 0 ? 'The file has no rows.' : 'No rows with problems.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={!!file} onClose={onClose} title="Import CSV" maxWidth="max-w-2xl">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {([['columns', 'Columns', <Columns3 size={16} />], ['rows', 'Rows', <Rows3 size={16} />]] as const).map(([value, label, icon]) => (
+            <button
+              key={value}
+              onClick={() => setStep(value)}
+              className={`flex items-center justify-center gap-2 p-2 rounded-lg border text-sm font-medium transition-all ${
+                step === value
+                  ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
+              }`}
+            >
+              {icon} {label}
+            </button>
+          ))}
+        </div>
+
+        {step === 'columns' ? renderColumns() : renderRows()}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          {step === 'columns' ? (
+            <button
+              onClick={() => setStep('rows')}
+              disabled={mapping.Title === undefined}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg shadow-sm transition-colors"
+            >
+              Check Rows
+            </button>
+          ) : (
+            <button
+              onClick={() => onContinue(file.name, ready.map(result => result.task!))}
+              disabled={ready.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg shadow-sm transition-colors"
+            >
+              Review {ready.length} Task{ready.length === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
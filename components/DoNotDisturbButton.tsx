@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Moon, BellRing, Settings } from 'lucide-react';
+import { AppSettings } from '../types';
+import { DND_DURATIONS, QUIET_HOURS_POLICIES, getQuietStatus } from '../utils/quietHours';
+import { formatSnoozeTime } from '../utils/snooze';
+
+interface DoNotDisturbButtonProps {
+  settings: AppSettings;
+  onChange: (dndUntil: number | null) => void;
+  onOpenSettings: () => void; // Quiet hours are set up there
+}
+
+// Header toggle for Do Not Disturb, which also shows when quiet hours are on
+export const DoNotDisturbButton: React.FC<DoNotDisturbButtonProps> = ({ settings, onChange, onOpenSettings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Quiet hours start and end with the clock, not only with the settings
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const status = getQuietStatus(settings, now);
+  const policy = QUIET_HOURS_POLICIES.find(p => p.id === settings.quietHoursPolicy);
+  const label = status
+    ? `${status.manual ? 'Do Not Disturb' : 'Quiet hours'} until ${formatSnoozeTime(status.until)}`
+    : 'Do Not Disturb is off';
+
+  const change = (dndUntil: number | null) => {
+    onChange(dndUntil);
+    setNow(Date.now());
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-all ${
+          status
+            ? 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+            : 'text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+        }`}
+        title={label}
+      >
+        <Moon size={20} className={status ? 'fill-current' : ''} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 z-50 w-60 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-2 animate-in fade-in zoom-in-95 duration-200">
+          <div className="px-2 py-1.5">
+            <p className="text-sm font-medium text-slate-800 dark:text-slate-100">{label}</p>
+            {status && policy && <p className="text-xs text-slate-500 dark:text-slate-400">Alarms: {policy.description.toLowerCase()}</p>}
+          </div>
+
+          {status?.manual && (
+            <button
+              onClick={() => change(null)}
+              className="w-full flex items-center gap-2 px-2 py-1.5 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
+            >
+              <BellRing size={14} /> Turn off
+            </button>
+          )}
+
+          <p className="px-2 pt-2 pb-1 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide">
+            {status?.manual ? 'Change to' : 'Turn on for'}
+          </p>
+          {DND_DURATIONS.map(({ minutes, label: durationLabel }) => (
+            <button
+              key={minutes}
+              onClick={() => change(Date.now() + minutes * 60 * 1000)}
+              className="w-full text-left px-2 py-1.5 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              {durationLabel}
+            </button>
+          ))}
+
+          <div className="border-t border-slate-100 dark:border-slate-700 my-1" />
+          <button
+            onClick={() => { setIsOpen(false); onOpenSettings(); }}
+            className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <Settings size={14} /> Quiet hours…
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
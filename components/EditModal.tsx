@@ -1,21 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { Task, Priority } from '../types';
+import { Task, TaskList, Priority, RecurrenceRule, Subtask, Attachment, AlarmSound } from '../types';
 import { Modal } from './ui/Modal';
 import { Flag } from 'lucide-react';
 import { DatePicker } from './ui/DatePicker';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { ReminderEditor } from './ReminderEditor';
+import { TagEditor } from './TagEditor';
+import { SubtaskEditor } from './SubtaskEditor';
+import { AttachmentList } from './AttachmentList';
+import { Markdown } from './Markdown';
+import { SoundSelect } from './SoundSelect';
+import { soundRepository, StoredSound } from '../services/soundRepository';
+import { resetReminders, updateReminderOffsets } from '../utils/reminders';
 
 interface EditModalProps {
   isOpen: boolean;
   onClose: () => void;
   task: Task | null;
+  lists: TaskList[];
+  allTags: string[];
   onSave: (updatedTask: Task) => void;
 }
 
-export const EditModal: React.FC<EditModalProps> = ({ isOpen, onClose, task, onSave }) => {
+export const EditModal: React.FC<EditModalProps> = ({ isOpen, onClose, task, lists, allTags, onSave }) => {
   const [title, setTitle] = useState('');
   const [time, setTime] = useState('');
   const [date, setDate] = useState('');
   const [priority, setPriority] = useState<Priority>('medium');
+  const [listId, setListId] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isNotesPreview, setIsNotesPreview] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
+  const [sound, setSound] = useState<AlarmSound | undefined>(undefined);
+  const [sounds, setSounds] = useState<StoredSound[]>([]);
 
   useEffect(() => {
     if (task) {
@@ -23,13 +44,50 @@ export const EditModal: React.FC<EditModalProps> = ({ isOpen, onClose, task, onS
       setTime(task.time);
       setDate(task.date || new Date().toISOString().split('T')[0]);
       setPriority(task.priority || 'medium');
+      setListId(task.listId && lists.some(l => l.id === task.listId) ? task.listId : '');
+      setTags(task.tags || []);
+      setSubtasks(task.subtasks || []);
+      setNotes(task.notes || '');
+      setIsNotesPreview(!!task.notes);
+      setAttachments(task.attachments || []);
+      setRecurrence(task.recurrence);
+      setReminderOffsets((task.reminders || []).map(r => r.offsetMinutes));
+      setSound(task.sound);
     }
   }, [task]);
 
+  useEffect(() => {
+    if (isOpen) {
+      soundRepository.getAll().then(setSounds).catch(e => console.error("Failed to load sounds:", e));
+    }
+  }, [isOpen]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (task && title.trim() && time && date) {
-      onSave({ ...task, title, time, date, priority });
+      // Editing the rule restarts the occurrence count from the current date
+      const occurrence = recurrence && JSON.stringify(recurrence) === JSON.stringify(task.recurrence) ? task.occurrence : 1;
+      // Rescheduling re-arms the reminder
+      const isRescheduled = time !== task.time || date !== task.date;
+      const reminders = reminderOffsets.length > 0 ? updateReminderOffsets(task.reminders, reminderOffsets) : undefined;
+      const checklist = subtasks.map(s => ({ ...s, title: s.title.trim() })).filter(s => s.title);
+      onSave({
+        ...task,
+        title,
+        time,
+        date,
+        priority,
+        listId: listId || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        subtasks: checklist.length > 0 ? checklist : undefined,
+        notes: notes.trim() ? notes : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        recurrence,
+        occurrence: recurrence ? occurrence : undefined,
+        reminders: isRescheduled ? resetReminders(reminders) : reminders,
+        sound: sound?.mode === 'tts' ? { mode: 'tts', ...(sound.phrase?.trim() ? { phrase: sound.phrase.trim() } : {}) } : sound,
+        ...(isRescheduled ? { notified: false, snoozedUntil: undefined } : {}),
+      });
       onClose();
     }
   };
@@ -69,25 +127,124 @@ export const EditModal: React.FC<EditModalProps> = ({ isOpen, onClose, task, onS
             </div>
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Priority</label>
+              <div className="relative">
+                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                       <Flag size={16} className={`${
+                           priority === 'high' ? 'text-red-500' : 
+                           priority === 'medium' ? 'text-amber-500' : 'text-blue-500'
+                       }`} />
+                   </div>
+                   <select
+                      value={priority}
+                      onChange={(e) => setPriority(e.target.value as Priority)}
+                      className="w-full pl-9 pr-3 py-2.5 appearance-none bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all cursor-pointer font-medium"
+                   >
+                      <option value="low">Low</option>
+                      <option value="medium">Medium</option>
+                      <option value="high">High</option>
+                   </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">List</label>
+              <select
+                  value={listId}
+                  onChange={(e) => setListId(e.target.value)}
+                  className="w-full px-3 py-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all cursor-pointer font-medium"
+              >
+                  <option value="">Inbox</option>
+                  {lists.map(list => (
+                      <option key={list.id} value={list.id}>{list.name}</option>
+                  ))}
+              </select>
+            </div>
+        </div>
+
+        <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Tags</label>
+            <TagEditor value={tags} onChange={setTags} suggestions={allTags} />
+        </div>
+
+        <div>
+            <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Notes</label>
+                <div className="flex gap-1 text-xs font-medium">
+                    {['Write', 'Preview'].map(tab => (
+                        <button
+                            key={tab}
+                            type="button"
+                            onClick={() => setIsNotesPreview(tab === 'Preview')}
+                            className={`px-2 py-0.5 rounded transition-colors ${
+                                isNotesPreview === (tab === 'Preview')
+                                ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                            }`}
+                        >
+                            {tab}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {isNotesPreview ? (
+                <div
+                    onDoubleClick={() => setIsNotesPreview(false)}
+                    className="min-h-[4.5rem] max-h-64 overflow-y-auto px-4 py-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg"
+                >
+                    {notes.trim()
+                        ? <Markdown source={notes} />
+                        : <p className="text-sm text-slate-400 italic">No notes</p>}
+                </div>
+            ) : (
+                <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={4}
+                    placeholder="Details, meeting links... Markdown is supported"
+                    className="w-full px-4 py-2.5 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all placeholder:text-slate-400 resize-y"
+                />
+            )}
+        </div>
+
+        <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Checklist</label>
+            <SubtaskEditor value={subtasks} onChange={setSubtasks} />
+        </div>
+
+        <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Attachments</label>
+            <AttachmentList value={attachments} onChange={setAttachments} />
+        </div>
+
         <div>
-            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Priority</label>
-            <div className="relative">
-                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                     <Flag size={16} className={`${
-                         priority === 'high' ? 'text-red-500' : 
-                         priority === 'medium' ? 'text-amber-500' : 'text-blue-500'
-                     }`} />
-                 </div>
-                 <select
-                    value={priority}
-                    onChange={(e) => setPriority(e.target.value as Priority)}
-                    className="w-full pl-9 pr-3 py-2.5 appearance-none bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all cursor-pointer font-medium"
-                 >
-                    <option value="low">Low</option>
-                    <option value="medium">Medium</option>
-                    <option value="high">High</option>
-                 </select>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Reminders</label>
+            <ReminderEditor value={reminderOffsets} onChange={setReminderOffsets} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Alarm Sound</label>
+              <SoundSelect value={sound} onChange={setSound} sounds={sounds} defaultLabel="List or priority default" />
             </div>
+            {sound?.mode === 'tts' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Spoken Phrase</label>
+                <input
+                    type="text"
+                    value={sound.phrase || ''}
+                    onChange={(e) => setSound({ mode: 'tts', ...(e.target.value ? { phrase: e.target.value } : {}) })}
+                    placeholder={`Task due: ${title}`}
+                    className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-800 dark:text-slate-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all"
+                />
+              </div>
+            )}
+        </div>
+
+        <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Repeat</label>
+            <RecurrenceEditor value={recurrence} onChange={setRecurrence} date={date} />
         </div>
 
         <div className="flex justify-end pt-2 gap-2">
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Lock, LockOpen, KeyRound } from 'lucide-react';
+import { SyncStatus } from '../types';
+import { syncService } from '../services/syncService';
+
+interface EncryptionSettingsProps {
+  status: SyncStatus;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = "w-full p-2 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-slate-800 dark:text-slate-200";
+const buttonClass = "flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors text-slate-700 dark:text-slate-200 disabled:opacity-50";
+
+export const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ status }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isChanging, setIsChanging] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setIsChanging(false);
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      reset();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const submitNewPassphrase = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("The passphrases do not match.");
+      return;
+    }
+    run(() => syncService.setEncryptionPassphrase(passphrase));
+  };
+
+  const disable = () => {
+    if (confirm("Store your cloud tasks unencrypted again?")) {
+      run(() => syncService.setEncryptionPassphrase(null));
+    }
+  };
+
+  const showNewPassphraseForm = status.encryption === 'off' || isChanging;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          {status.encryption === 'on'
+            ? <Lock className="text-green-600 dark:text-green-400 shrink-0" size={20} />
+            : status.encryption === 'locked'
+              ? <KeyRound className="text-amber-500 shrink-0" size={20} />
+              : <LockOpen className="text-slate-400 shrink-0" size={20} />}
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">End-to-End Encryption</h4>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {status.encryption === 'on' && 'Tasks are encrypted before they leave this device.'}
+              {status.encryption === 'locked' && 'Your cloud tasks are encrypted. Enter the passphrase to sync.'}
+              {status.encryption === 'off' && 'Encrypt tasks with a passphrase only your devices know.'}
+            </p>
+          </div>
+        </div>
+        {status.encryption === 'on' && !isChanging && (
+          <div className="flex gap-2 shrink-0">
+            <button onClick={() => setIsChanging(true)} disabled={isBusy} className={buttonClass}>Change</button>
+            <button onClick={disable} disabled={isBusy} className={buttonClass}>Turn Off</button>
+          </div>
+        )}
+      </div>
+
+      {status.encryption === 'locked' && (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && run(() => syncService.unlockEncryption(passphrase))}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            className={inputClass}
+          />
+          <button onClick={() => run(() => syncService.unlockEncryption(passphrase))} disabled={isBusy || !passphrase} className={`${buttonClass} shrink-0`}>
+            Unlock
+          </button>
+        </div>
+      )}
+
+      {showNewPassphraseForm && (
+        <div className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={isChanging ? 'New passphrase' : 'Passphrase'}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <p className="text-xs text-amber-600 dark:text-amber-400">
+            The passphrase cannot be recovered. Without it, other devices cannot read your cloud tasks.
+          </p>
+          <div className="flex justify-end gap-2">
+            {isChanging && (
+              <button onClick={reset} disabled={isBusy} className={buttonClass}>Cancel</button>
+            )}
+            <button onClick={submitNewPassphrase} disabled={isBusy || !passphrase} className={buttonClass}>
+              <Lock size={14} /> {isBusy ? 'Encrypting…' : isChanging ? 'Re-encrypt' : 'Encrypt Cloud Data'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
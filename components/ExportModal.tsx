@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { DatabaseBackup, Sheet, CalendarDays, ListTodo, FileDown } from 'lucide-react';
+import { AppSettings, Task, TaskList } from '../types';
+import { Modal } from './ui/Modal';
+import { createBackup } from '../utils/backup';
+import { CSV_TEMPLATE, tasksToCsv } from '../utils/taskCsv';
+import { tasksToIcs } from '../utils/ical';
+import { downloadFile } from '../utils/download';
+import { getTodayDate } from '../utils/date';
+
+type ExportFormat = 'json' | 'csv' | 'ics-events' | 'ics-todos';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tasks: Task[];
+  lists: TaskList[];
+  settings: AppSettings;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { value: 'json', label: 'Backup', description: 'Tasks, lists and settings as JSON. Restores everything.', icon: <DatabaseBackup size={24} className="mb-2" /> },
+  { value: 'csv', label: 'Spreadsheet', description: 'One row per task with every field, for Excel or Sheets.', icon: <Sheet size={24} className="mb-2" /> },
+  { value: 'ics-events', label: 'Calendar', description: 'Calendar events with alarms, for Google Calendar or Outlook.', icon: <CalendarDays size={24} className="mb-2" /> },
+  { value: 'ics-todos', label: 'To-dos', description: 'iCalendar to-dos with alarms, for Thunderbird or Apple Reminders.', icon: <ListTodo size={24} className="mb-2" /> },
+];
+
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, tasks, lists, settings }) => {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [includeCompleted, setIncludeCompleted] = useState(true);
+
+  // Backups always contain everything
+  const exported = format === 'json' || includeCompleted ? tasks : tasks.filter(t => !t.completed);
+
+  const handleExport = () => {
+    const stamp = getTodayDate();
+    switch (format) {
+      case 'json':
+        downloadFile(`windo-backup-${stamp}.json`, JSON.stringify(createBackup(tasks, lists, settings), null, 2), 'application/json');
+        break;
+      case 'csv':
+        downloadFile(`windo-tasks-${stamp}.csv`, tasksToCsv(exported, lists), 'text/csv;charset=utf-8');
+        break;
+      default:
+        downloadFile(`windo-tasks-${stamp}.ics`, tasksToIcs(exported, format === 'ics-events' ? 'VEVENT' : 'VTODO'), 'text/calendar;charset=utf-8');
+    }
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Tasks" maxWidth="max-w-lg">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {FORMATS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFormat(option.value)}
+              className={`flex flex-col items-center p-3 rounded-lg border transition-all ${
+                format === option.value
+                  ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
+              }`}
+            >
+              {option.icon}
+              <span className="text-xs font-medium">{option.label}</span>
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {FORMATS.find(option => option.value === format)?.description}
+        </p>
+
+        {format !== 'json' && (
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeCompleted}
+              onChange={(e) => setIncludeCompleted(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            Include completed tasks
+          </label>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <button
+            onClick={() => downloadFile('windo_template.csv', CSV_TEMPLATE, 'text/csv;charset=utf-8')}
+            className="flex items-center gap-1 px-2 py-2 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
+          >
+            <FileDown size={14} /> CSV import template
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exported.length === 0 && format !== 'json'}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg shadow-sm transition-colors"
+            >
+              Export {exported.length} Task{exported.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Search, X, Flag, BookmarkPlus, Trash2 } from 'lucide-react';
+import { Priority, SavedFilter, TaskFilter } from '../types';
+import { DATE_RANGE_LABELS, EMPTY_FILTER, isFilterActive } from '../utils/filters';
+
+interface FilterBarProps {
+  filter: TaskFilter;
+  onChange: (filter: TaskFilter) => void;
+  tags: string[]; // Tags in use, offered as toggles
+  savedFilter?: SavedFilter; // The smart list matching the current filter, if any
+  onSave: (name: string) => void;
+  onDeleteSaved: (id: string) => void;
+}
+
+const PRIORITIES: { value: Priority; label: string; color: string }[] = [
+  { value: 'high', label: 'High', color: 'text-red-500' },
+  { value: 'medium', label: 'Medium', color: 'text-amber-500' },
+  { value: 'low', label: 'Low', color: 'text-blue-500' },
+];
+
+const toggleClass = (isActive: boolean) => `flex items-center gap-1 px-2 py-1 rounded-md border text-xs font-medium whitespace-nowrap transition-all ${
+  isActive
+    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+    : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400'
+}`;
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export const FilterBar: React.FC<FilterBarProps> = ({ filter, onChange, tags, savedFilter, onSave, onDeleteSaved }) => {
+  const isActive = isFilterActive(filter);
+
+  const handleSave = () => {
+    const name = prompt("Name this smart list")?.trim();
+    if (name) onSave(name);
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 flex flex-col gap-3 transition-colors">
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+        <input
+          type="text"
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          placeholder="Search tasks"
+          className="w-full pl-9 pr-3 py-2 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all placeholder:text-slate-400 text-slate-800 dark:text-slate-100"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {PRIORITIES.map(({ value, label, color }) => (
+          <button
+            key={value}
+            onClick={() => onChange({ ...filter, priorities: toggle(filter.priorities, value) })}
+            className={toggleClass(filter.priorities.includes(value))}
+          >
+            <Flag size={12} className={color} /> {label}
+          </button>
+        ))}
+        <span className="w-px h-5 bg-slate-200 dark:bg-slate-700" />
+        {(Object.keys(DATE_RANGE_LABELS) as NonNullable<TaskFilter['dateRange']>[]).map(range => (
+          <button
+            key={range}
+            onClick={() => onChange({ ...filter, dateRange: filter.dateRange === range ? null : range })}
+            className={toggleClass(filter.dateRange === range)}
+          >
+            {DATE_RANGE_LABELS[range]}
+          </button>
+        ))}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onChange({ ...filter, tags: toggle(filter.tags, tag) })}
+              className={toggleClass(filter.tags.includes(tag))}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isActive && (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md transition-colors"
+          >
+            <X size={14} /> Clear
+          </button>
+          {savedFilter ? (
+            <button
+              onClick={() => onDeleteSaved(savedFilter.id)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md transition-colors"
+            >
+              <Trash2 size={14} /> Delete "{savedFilter.name}"
+            </button>
+          ) : (
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md transition-colors"
+            >
+              <BookmarkPlus size={14} /> Save as smart list
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, RefreshCw } from 'lucide-react';
+import { AppSettings, Task, TaskList } from '../types';
+import { Modal } from './ui/Modal';
+import { ImportPlan, RecordUpdate } from '../utils/importPlan';
+import { describeRecurrence } from '../utils/recurrence';
+import { formatShortDate } from '../utils/date';
+import { SOUND_LABELS } from '../utils/sounds';
+
+// A parsed file waiting for the user's review
+export interface PendingImport {
+  fileName: string;
+  tasks: ImportPlan<Task>;
+  lists?: ImportPlan<TaskList>; // Backups only
+  settings?: Partial<AppSettings>; // Backups only
+}
+
+export interface ImportSelection {
+  added: Task[];
+  updated: Task[];
+  listId: string | undefined; // For new tasks without a list
+  restoreSettings: boolean;
+}
+
+interface ImportPreviewModalProps {
+  pending: PendingImport | null;
+  onClose: () => void;
+  lists: TaskList[];
+  defaultListId?: string;
+  onApply: (selection: ImportSelection) => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  title: 'Title', date: 'Date', time: 'Time', priority: 'Priority', completed: 'Completed', listId: 'List',
+  tags: 'Tags', notes: 'Notes', subtasks: 'Checklist', recurrence: 'Repeat', reminders: 'Reminders',
+  attachments: 'Attachments', sound: 'Sound', createdAt: 'Created',
+};
+
+const MAX_VALUE_LENGTH = 40;
+
+const truncate = (text: string) => text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ pending, onClose, lists, defaultListId, onApply }) => {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [listId, setListId] = useState('');
+  const [restoreSettings, setRestoreSettings] = useState(false);
+
+  useEffect(() => {
+    if (pending) {
+      setExcluded(new Set());
+      setListId(defaultListId || '');
+      setRestoreSettings(false);
+    }
+  }, [pending]);
+
+  if (!pending) return null;
+
+  const { added, updated, unchanged } = pending.tasks;
+  // Lists from the backup count for names and the target list picker
+  const knownLists = [...lists, ...(pending.lists?.added || [])];
+  const listName = (id: unknown) => knownLists.find(l => l.id === id)?.name || 'Inbox';
+
+  const formatValue = (task: Task, field: keyof Task): string => {
+    const value = task[field];
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) return 'none';
+    switch (field) {
+      case 'date': return formatShortDate(task.date);
+      case 'completed': return task.completed ? 'Yes' : 'No';
+      case 'listId': return listName(task.listId);
+      case 'tags': return task.tags!.map(tag => `#${tag}`).join(' ');
+      case 'recurrence': return describeRecurrence(task.recurrence!);
+      case 'subtasks': case 'reminders': case 'attachments': {
+        const count = task[field]!.length;
+        return `${count} item${count === 1 ? '' : 's'}`;
+      }
+      case 'sound': return SOUND_LABELS[task.sound!.mode];
+      case 'createdAt': return new Date(task.createdAt!).toLocaleString();
+      default: return truncate(String(value));
+    }
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set<string>(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const selectedAdded = added.filter(t => !excluded.has(t.id));
+  const selectedUpdated = updated.filter(u => !excluded.has(u.after.id));
+  const needsList = selectedAdded.some(t => !t.listId);
+  const listChanges = pending.lists ? pending.lists.added.length + pending.lists.updated.length : 0;
+  const canApply = selectedAdded.length + selectedUpdated.length > 0 || listChanges > 0 || restoreSettings;
+
+  const handleApply = () => {
+    onApply({
+      added: selectedAdded,
+      updated: selectedUpdated.map(u => u.after),
+      listId: listId || undefined,
+      restoreSettings,
+    });
+  };
+
+  const renderCheckbox = (id: string) => (
+    <input
+      type="checkbox"
+      checked={!excluded.has(id)}
+      onChange={() => toggle(id)}
+      className="mt-0.5 w-4 h-4 accent-blue-600 shrink-0"
+    />
+  );
+
+  const renderUpdate = ({ before, after, fields }: RecordUpdate<Task>) => {
+    const shown = fields.filter(field => FIELD_LABELS[field]);
+    const hidden = fields.length - shown.length;
+    return (
+      <label key={after.id} className="flex items-start gap-2 py-1.5 cursor-pointer">
+        {renderCheckbox(after.id)}
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate">{before.title}</p>
+          <ul className="text-xs text-slate-500 dark:text-slate-400 space-y-0.5">
+            {shown.map(field => (
+              <li key={field}>
+                {FIELD_LABELS[field]}: <span className="line-through">{formatValue(before, field)}</span>
+                {' → '}
+                <span className="text-slate-700 dark:text-slate-200">{formatValue(after, field)}</span>
+              </li>
+            ))}
+            {hidden > 0 && <li>{hidden} other detail{hidden === 1 ? '' : 's'}</li>}
+          </ul>
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <Modal isOpen={!!pending} onClose={onClose} title="Import Preview" maxWidth="max-w-xl">
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          <span className="font-medium text-slate-700 dark:text-slate-200">{pending.fileName}</span>:{' '}
+          {added.length} new, {updated.length} updated and {unchanged} unchanged task{unchanged === 1 ? '' : 's'}.
+          {pending.lists && ` Lists: ${pending.lists.added.length} new, ${pending.lists.updated.length} updated.`}
+        </p>
+
+        {added.length > 0 && (
+          <div>
+            <h4 className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-green-600 dark:text-green-400 mb-1">
+              <Plus size={14} /> New
+            </h4>
+            <div className="max-h-48 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+              {added.map(task => (
+                <label key={task.id} className="flex items-start gap-2 py-1.5 cursor-pointer">
+                  {renderCheckbox(task.id)}
+                  <span className="flex-1 min-w-0 text-sm text-slate-700 dark:text-slate-200 truncate">{task.title}</span>
+                  <span className="text-xs font-mono text-slate-400 whitespace-nowrap">{task.date} {task.time}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {updated.length > 0 && (
+          <div>
+            <h4 className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-amber-400 mb-1">
+              <RefreshCw size={14} /> Updated
+            </h4>
+            <div className="max-h-56 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+              {updated.map(renderUpdate)}
+            </div>
+          </div>
+        )}
+
+        {needsList && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Add new tasks without a list to</label>
+            <select
+              value={listId}
+              onChange={(e) => setListId(e.target.value)}
+              className="w-full px-3 py-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all cursor-pointer font-medium"
+            >
+              <option value="">Inbox</option>
+              {knownLists.map(list => (
+                <option key={list.id} value={list.id}>{list.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {pending.settings && Object.keys(pending.settings).length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={restoreSettings}
+              onChange={(e) => setRestoreSettings(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            Also restore settings (sync, sounds and voice stay as they are)
+          </label>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!canApply}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg shadow-sm transition-colors"
+          >
+            Import {selectedAdded.length + selectedUpdated.length} Task{selectedAdded.length + selectedUpdated.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { AppSettings, ListColor, ListIcon as ListIconName, Priority, SoundMode, TaskList } from '../types';
+import { Modal } from './ui/Modal';
+import { LIST_COLORS, LIST_ICONS } from './ListIcon';
+import { createList } from '../utils/lists';
+import { SOUND_LABELS } from '../utils/sounds';
+import { TONE_IDS } from '../utils/tones';
+
+interface ListEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  list: TaskList | null; // null creates a new list
+  settings: AppSettings;
+  onSave: (list: TaskList) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all placeholder:text-slate-400";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
+export const ListEditorModal: React.FC<ListEditorModalProps> = ({ isOpen, onClose, list, settings, onSave, onDelete }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<ListColor>('blue');
+  const [icon, setIcon] = useState<ListIconName>('list');
+  const [defaultPriority, setDefaultPriority] = useState<Priority>('medium');
+  const [soundMode, setSoundMode] = useState<SoundMode | ''>('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(list?.name || '');
+      setColor(list?.color || 'blue');
+      setIcon(list?.icon || 'list');
+      setDefaultPriority(list?.defaultPriority || 'medium');
+      setSoundMode(list?.soundMode || '');
+    }
+  }, [isOpen, list]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      ...(list || createList(name.trim())),
+      name: name.trim(),
+      color,
+      icon,
+      defaultPriority,
+      soundMode: soundMode || undefined,
+    });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (list && confirm(`Delete "${list.name}"? Its tasks move to the Inbox.`)) {
+      onDelete(list.id);
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={list ? 'Edit List' : 'New List'}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+            autoFocus
+            placeholder="e.g. Work"
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>Color</label>
+          <div className="flex gap-2">
+            {(Object.keys(LIST_COLORS) as ListColor[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={`w-7 h-7 rounded-full ${LIST_COLORS[option].swatch} transition-all ${
+                  color === option ? 'ring-2 ring-offset-2 ring-blue-500 dark:ring-offset-slate-800' : 'opacity-70 hover:opacity-100'
+                }`}
+                title={option}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Icon</label>
+          <div className="grid grid-cols-8 gap-2">
+            {(Object.keys(LIST_ICONS) as ListIconName[]).map(option => {
+              const Icon = LIST_ICONS[option];
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setIcon(option)}
+                  className={`flex items-center justify-center p-2 rounded-lg border transition-all ${
+                    icon === option
+                      ? `bg-blue-50 dark:bg-blue-900/30 border-blue-500 ${LIST_COLORS[color].text}`
+                      : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-500 dark:text-slate-400'
+                  }`}
+                  title={option}
+                >
+                  <Icon size={18} />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Default Priority</label>
+            <select
+              value={defaultPriority}
+              onChange={(e) => setDefaultPriority(e.target.value as Priority)}
+              className={`${inputClass} cursor-pointer`}
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Reminder Sound</label>
+            <select
+              value={soundMode}
+              onChange={(e) => setSoundMode(e.target.value as SoundMode | '')}
+              className={`${inputClass} cursor-pointer`}
+            >
+              <option value="">App default</option>
+              {[...TONE_IDS, 'tts' as const].map(mode => (
+                <option key={mode} value={mode}>{SOUND_LABELS[mode]}</option>
+              ))}
+              {settings.customSoundId && (
+                <option value="custom">{settings.customSoundName || 'Custom sound'}</option>
+              )}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          {list ? (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+            >
+              <Trash2 size={16} /> Delete
+            </button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg shadow-sm transition-colors"
+            >
+              {list ? 'Save Changes' : 'Create List'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+};
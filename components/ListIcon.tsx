@@ -0,0 +1,36 @@
+import React from 'react';
+import { List, Briefcase, Home, ShoppingCart, Heart, BookOpen, Star, Users } from 'lucide-react';
+import { ListColor, ListIcon as ListIconName } from '../types';
+
+export const LIST_ICONS: Record<ListIconName, React.FC<{ size?: number; className?: string }>> = {
+  list: List,
+  briefcase: Briefcase,
+  home: Home,
+  cart: ShoppingCart,
+  heart: Heart,
+  book: BookOpen,
+  star: Star,
+  users: Users,
+};
+
+// Full class names so Tailwind picks them up
+export const LIST_COLORS: Record<ListColor, { text: string; swatch: string; chip: string }> = {
+  blue: { text: 'text-blue-500 dark:text-blue-400', swatch: 'bg-blue-500', chip: 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' },
+  green: { text: 'text-green-500 dark:text-green-400', swatch: 'bg-green-500', chip: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+  amber: { text: 'text-amber-500 dark:text-amber-400', swatch: 'bg-amber-500', chip: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300' },
+  red: { text: 'text-red-500 dark:text-red-400', swatch: 'bg-red-500', chip: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300' },
+  purple: { text: 'text-purple-500 dark:text-purple-400', swatch: 'bg-purple-500', chip: 'bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' },
+  pink: { text: 'text-pink-500 dark:text-pink-400', swatch: 'bg-pink-500', chip: 'bg-pink-50 dark:bg-pink-900/30 text-pink-700 dark:text-pink-300' },
+  slate: { text: 'text-slate-500 dark:text-slate-400', swatch: 'bg-slate-500', chip: 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300' },
+};
+
+interface ListIconProps {
+  icon: ListIconName;
+  color: ListColor;
+  size?: number;
+}
+
+export const ListIcon: React.FC<ListIconProps> = ({ icon, color, size = 16 }) => {
+  const Icon = LIST_ICONS[icon] || List;
+  return <Icon size={size} className={`shrink-0 ${LIST_COLORS[color]?.text || LIST_COLORS.blue.text}`} />;
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Layers, Inbox, Plus, Pencil } from 'lucide-react';
+import { Task, TaskList } from '../types';
+import { ALL_LISTS, INBOX, isInView } from '../utils/lists';
+import { ListIcon } from './ListIcon';
+
+interface ListSwitcherProps {
+  lists: TaskList[];
+  tasks: Task[];
+  activeView: string; // ALL_LISTS, INBOX or a list id
+  onSelect: (view: string) => void;
+  onCreate: () => void;
+  onEdit: (list: TaskList) => void;
+}
+
+const chipClass = (isActive: boolean) => `flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm font-medium whitespace-nowrap transition-all ${
+  isActive
+    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+    : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+}`;
+
+export const ListSwitcher: React.FC<ListSwitcherProps> = ({ lists, tasks, activeView, onSelect, onCreate, onEdit }) => {
+  const listIds = new Set<string>(lists.map(l => l.id));
+  // Ongoing tasks per view
+  const count = (view: string) => tasks.filter(t => !t.completed && isInView(t, view, listIds)).length;
+
+  const renderCount = (view: string) => (
+    <span className="text-xs text-slate-400 dark:text-slate-500">{count(view)}</span>
+  );
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1 mb-3">
+      <button onClick={() => onSelect(ALL_LISTS)} className={chipClass(activeView === ALL_LISTS)}>
+        <Layers size={16} /> All lists {renderCount(ALL_LISTS)}
+      </button>
+      <button onClick={() => onSelect(INBOX)} className={chipClass(activeView === INBOX)}>
+        <Inbox size={16} /> Inbox {renderCount(INBOX)}
+      </button>
+
+      {lists.map(list => (
+        <div key={list.id} className={chipClass(activeView === list.id)}>
+          <button onClick={() => onSelect(list.id)} className="flex items-center gap-2">
+            <ListIcon icon={list.icon} color={list.color} />
+            {list.name} {renderCount(list.id)}
+          </button>
+          {activeView === list.id && (
+            <button
+              onClick={() => onEdit(list)}
+              className="p-0.5 -mr-1 text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 rounded transition-colors"
+              title="Edit List"
+            >
+              <Pencil size={13} />
+            </button>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={onCreate}
+        className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-dashed border-slate-300 dark:border-slate-600 text-sm text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:border-blue-400 whitespace-nowrap transition-all"
+        title="New List"
+      >
+        <Plus size={16} /> New list
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Block, InlineToken, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+const renderInline = (tokens: InlineToken[]): React.ReactNode[] => tokens.map((token, i) => {
+  switch (token.type) {
+    case 'text': return <React.Fragment key={i}>{token.text}</React.Fragment>;
+    case 'break': return <br key={i} />;
+    case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-100 dark:bg-slate-700 font-mono text-[0.85em]">{token.text}</code>;
+    case 'bold': return <strong key={i} className="font-semibold">{renderInline(token.children)}</strong>;
+    case 'italic': return <em key={i}>{renderInline(token.children)}</em>;
+    case 'strike': return <s key={i}>{renderInline(token.children)}</s>;
+    case 'link':
+      return (
+        <a key={i} href={token.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 underline underline-offset-2 break-all hover:text-blue-700 dark:hover:text-blue-300">
+          {renderInline(token.children)}
+        </a>
+      );
+  }
+});
+
+const renderBlock = (block: Block, i: number) => {
+  switch (block.type) {
+    case 'heading': {
+      const size = block.level === 1 ? 'text-lg' : block.level === 2 ? 'text-base' : 'text-sm';
+      return <p key={i} className={`${size} font-semibold text-slate-800 dark:text-slate-100`}>{renderInline(block.children)}</p>;
+    }
+    case 'paragraph': return <p key={i}>{renderInline(block.children)}</p>;
+    case 'quote': return <blockquote key={i} className="pl-3 border-l-2 border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400">{renderInline(block.children)}</blockquote>;
+    case 'code': return <pre key={i} className="p-2 rounded-lg bg-slate-100 dark:bg-slate-900 font-mono text-xs overflow-x-auto">{block.text}</pre>;
+    case 'rule': return <hr key={i} className="border-slate-200 dark:border-slate-700" />;
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+      return block.ordered
+        ? <ol key={i} className="pl-5 list-decimal space-y-0.5">{items}</ol>
+        : <ul key={i} className="pl-5 list-disc space-y-0.5">{items}</ul>;
+    }
+  }
+};
+
+// Renders task notes; see utils/markdown for the supported syntax
+export const Markdown: React.FC<MarkdownProps> = ({ source, className = '' }) => (
+  <div className={`space-y-2 text-sm text-slate-700 dark:text-slate-300 break-words ${className}`}>
+    {parseMarkdown(source).map(renderBlock)}
+  </div>
+);
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Task } from '../types';
+import { Modal } from './ui/Modal';
+import { CheckCircle2, CalendarClock, AlarmClock } from 'lucide-react';
+import { SNOOZE_OPTIONS } from '../utils/snooze';
+import { formatShortDate } from '../utils/date';
+
+interface MissedRemindersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tasks: Task[];
+  onComplete: (id: string) => void;
+  onSnooze: (id: string, until: number) => void;
+  onReschedule: (task: Task) => void;
+}
+
+export const MissedRemindersModal: React.FC<MissedRemindersModalProps> = ({
+  isOpen,
+  onClose,
+  tasks,
+  onComplete,
+  onSnooze,
+  onReschedule
+}) => {
+  const title = `You missed ${tasks.length} reminder${tasks.length === 1 ? '' : 's'}`;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} maxWidth="max-w-xl">
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          These tasks became due while WinDo was closed or your device was asleep.
+        </p>
+
+        <div className="flex flex-col gap-2">
+          {tasks.map(task => (
+            <div
+              key={task.id}
+              className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-slate-700 dark:text-slate-200 truncate">{task.title}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 font-mono">
+                  {formatShortDate(task.date)} {task.time}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onComplete(task.id)}
+                  className="p-2 text-slate-500 dark:text-slate-400 hover:text-green-600 dark:hover:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/30 rounded-md transition-all"
+                  title="Complete"
+                >
+                  <CheckCircle2 size={18} />
+                </button>
+                <div className="relative flex items-center">
+                  <AlarmClock size={16} className="absolute left-2 text-slate-400 pointer-events-none" />
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const option = SNOOZE_OPTIONS.find(o => o.id === e.target.value);
+                      if (option) onSnooze(task.id, option.getUntil(new Date()));
+                    }}
+                    className="pl-7 pr-2 py-1.5 text-xs bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-slate-600 dark:text-slate-300 cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                    title="Snooze"
+                  >
+                    <option value="" disabled>Snooze</option>
+                    {SNOOZE_OPTIONS.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={() => onReschedule(task)}
+                  className="p-2 text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-md transition-all"
+                  title="Reschedule"
+                >
+                  <CalendarClock size={18} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            Dismiss All
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { X, Calendar, Clock, Flag, Hash, Repeat } from 'lucide-react';
+import { QuickAddField, QuickAddResult } from '../utils/quickAdd';
+import { describeRecurrence } from '../utils/recurrence';
+import { formatShortDate, getTodayDate } from '../utils/date';
+
+interface QuickAddPreviewProps {
+  result: QuickAddResult;
+  overridden: QuickAddField[]; // Fields the user set in the form instead
+  onDismiss: (field: QuickAddField) => void; // Keep the phrase in the title instead
+}
+
+const PRIORITY_COLORS = { high: 'text-red-500', medium: 'text-amber-500', low: 'text-blue-500' };
+
+export const QuickAddPreview: React.FC<QuickAddPreviewProps> = ({ result, overridden, onDismiss }) => {
+  const chips: { field: QuickAddField; icon: React.ReactNode; label: string }[] = [];
+  if (result.date) {
+    chips.push({ field: 'date', icon: <Calendar size={12} />, label: result.date === getTodayDate() ? 'Today' : formatShortDate(result.date) });
+  }
+  if (result.time) {
+    chips.push({ field: 'time', icon: <Clock size={12} />, label: result.time });
+  }
+  if (result.priority) {
+    const label = result.priority[0].toUpperCase() + result.priority.slice(1);
+    chips.push({ field: 'priority', icon: <Flag size={12} className={PRIORITY_COLORS[result.priority]} />, label });
+  }
+  if (result.tags.length > 0) {
+    chips.push({ field: 'tags', icon: <Hash size={12} />, label: result.tags.join(', ') });
+  }
+  if (result.recurrence) {
+    chips.push({ field: 'recurrence', icon: <Repeat size={12} />, label: describeRecurrence(result.recurrence) });
+  }
+
+  const visible = chips.filter(chip => !overridden.includes(chip.field));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs">
+      <span className="text-slate-400 dark:text-slate-500">
+        Adds <span className="font-medium text-slate-600 dark:text-slate-300">{result.title || 'Untitled'}</span>
+      </span>
+      {visible.map(({ field, icon, label }) => (
+        <span key={field} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium">
+          {icon} {label}
+          <button
+            type="button"
+            onClick={() => onDismiss(field)}
+            className="p-0.5 text-blue-400 hover:text-red-500 dark:hover:text-red-400 rounded transition-colors"
+            title="Keep as text"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Moon, Plus, Trash2 } from 'lucide-react';
+import { AppSettings, QuietHoursWindow } from '../types';
+import { WEEKDAY_SHORT } from '../utils/date';
+import { QUIET_HOURS_POLICIES, createQuietHoursWindow } from '../utils/quietHours';
+
+interface QuietHoursSettingsProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+}
+
+const timeInputClass = "px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50 color-scheme-dark";
+
+export const QuietHoursSettings: React.FC<QuietHoursSettingsProps> = ({ settings, onSave }) => {
+  const saveWindows = (quietHours: QuietHoursWindow[]) => onSave({ ...settings, quietHours });
+
+  const updateWindow = (id: string, changes: Partial<QuietHoursWindow>) => {
+    saveWindows(settings.quietHours.map(w => w.id === id ? { ...w, ...changes } : w));
+  };
+
+  const toggleDay = (window: QuietHoursWindow, day: number) => {
+    const days = window.days.includes(day) ? window.days.filter(d => d !== day) : [...window.days, day].sort();
+    updateWindow(window.id, { days });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+          <Moon size={16} /> Quiet Hours
+        </label>
+        <button
+          onClick={() => saveWindows([...settings.quietHours, createQuietHoursWindow()])}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
+        >
+          <Plus size={14} /> Add
+        </button>
+      </div>
+
+      {settings.quietHours.length === 0 ? (
+        <p className="text-xs text-slate-400">No quiet hours. Alarms ring at any time unless Do Not Disturb is on.</p>
+      ) : (
+        settings.quietHours.map(window => (
+          <div key={window.id} className="p-3 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg space-y-2">
+            <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              <input
+                type="time"
+                value={window.start}
+                onChange={(e) => e.target.value && updateWindow(window.id, { start: e.target.value })}
+                className={timeInputClass}
+              />
+              <span>to</span>
+              <input
+                type="time"
+                value={window.end}
+                onChange={(e) => e.target.value && updateWindow(window.id, { end: e.target.value })}
+                className={timeInputClass}
+              />
+              {window.end <= window.start && <span className="text-xs text-slate-400">next day</span>}
+              <button
+                onClick={() => saveWindows(settings.quietHours.filter(w => w.id !== window.id))}
+                className="ml-auto p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                title="Remove"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <div className="flex gap-1">
+              {WEEKDAY_SHORT.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleDay(window, day)}
+                  className={`flex-1 h-7 rounded-md text-xs font-medium transition-colors ${
+                    window.days.includes(day)
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'bg-slate-100 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-slate-600 dark:text-slate-400 block">During quiet hours and Do Not Disturb</label>
+        <div className="grid grid-cols-3 gap-2">
+          {QUIET_HOURS_POLICIES.map(policy => (
+            <button
+              key={policy.id}
+              onClick={() => onSave({ ...settings, quietHoursPolicy: policy.id })}
+              className={`flex flex-col items-center p-2 rounded-lg border text-center transition-all ${
+                settings.quietHoursPolicy === policy.id
+                  ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
+              }`}
+            >
+              <span className="text-xs font-medium">{policy.label}</span>
+              <span className="text-[11px] opacity-75">{policy.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
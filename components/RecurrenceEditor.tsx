@@ -0,0 +1,195 @@
+import React, { useEffect, useRef } from 'react';
+import { RecurrenceRule } from '../types';
+import { Repeat } from 'lucide-react';
+import { DatePicker } from './ui/DatePicker';
+import { getNthWeekday, isLastWeekdayOfMonth, isWeekdaysRule } from '../utils/recurrence';
+import { parseDate, WEEKDAY_SHORT } from '../utils/date';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | undefined;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  date: string; // Anchor date of the first occurrence
+}
+
+type Preset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly';
+type EndMode = 'never' | 'count' | 'until';
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th'];
+
+const inputClass = "px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all text-sm text-slate-600 dark:text-slate-300";
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, date }) => {
+  const anchor = parseDate(date);
+
+  const preset: Preset = !value ? 'none' : isWeekdaysRule(value) ? 'weekdays' : value.freq;
+  const endMode: EndMode = value?.count ? 'count' : value?.until ? 'until' : 'never';
+
+  // Keep monthly and yearly rules anchored to the selected date when the user changes it.
+  // Not on mount: a clamped occurrence (day 31 on Feb 28) must not rewrite the rule.
+  const previousDate = useRef(date);
+  useEffect(() => {
+    if (date === previousDate.current) return;
+    previousDate.current = date;
+    if (value?.freq !== 'monthly' && value?.freq !== 'yearly') return;
+    if (value.byNthWeekday) {
+      const nth = getNthWeekday(date);
+      // "Last Friday" stays the last one when the new date is still the month's last Friday
+      if (value.byNthWeekday.n === -1 && isLastWeekdayOfMonth(date)) nth.n = -1;
+      if (nth.n !== value.byNthWeekday.n || nth.weekday !== value.byNthWeekday.weekday) {
+        onChange({ ...value, byNthWeekday: nth });
+      }
+    } else if ((value.freq === 'monthly' || value.byMonthDay) && value.byMonthDay !== anchor.getDate()) {
+      onChange({ ...value, byMonthDay: anchor.getDate() });
+    }
+  }, [date]);
+
+  const handlePresetChange = (next: Preset) => {
+    const ends = value ? { count: value.count, until: value.until } : {};
+    switch (next) {
+      case 'none':
+        onChange(undefined);
+        break;
+      case 'weekdays':
+        onChange({ freq: 'weekly', interval: 1, byWeekday: [1, 2, 3, 4, 5], ...ends });
+        break;
+      case 'weekly':
+        onChange({ freq: 'weekly', interval: 1, byWeekday: [anchor.getDay()], ...ends });
+        break;
+      case 'monthly':
+        onChange({ freq: 'monthly', interval: 1, byMonthDay: anchor.getDate(), ...ends });
+        break;
+      default:
+        onChange({ freq: next, interval: 1, ...ends });
+    }
+  };
+
+  const update = (patch: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...patch });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const current = value.byWeekday || [];
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+    // Keep at least one day selected
+    if (next.length > 0) update({ byWeekday: next });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') update({ count: undefined, until: undefined });
+    if (mode === 'count') update({ count: value?.count || 10, until: undefined });
+    if (mode === 'until') update({ count: undefined, until: value?.until || date });
+  };
+
+  const unitLabel = value ? { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[value.freq] : '';
+  const nth = getNthWeekday(date);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Repeat size={16} className={value ? 'text-blue-500' : 'text-slate-400'} />
+          </div>
+          <select
+            value={preset}
+            onChange={(e) => handlePresetChange(e.target.value as Preset)}
+            className={`${inputClass} pl-9 pr-8 appearance-none cursor-pointer font-medium`}
+          >
+            <option value="none">Does not repeat</option>
+            <option value="daily">Daily</option>
+            <option value="weekdays">Every weekday (Mon-Fri)</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+            <option value="yearly">Yearly</option>
+          </select>
+        </div>
+
+        {value && preset !== 'weekdays' && (
+          <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            <span>every</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={`${inputClass} w-16`}
+            />
+            <span>{unitLabel}{value.interval === 1 ? '' : 's'}</span>
+          </div>
+        )}
+      </div>
+
+      {value && preset === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_SHORT.map((label, day) => {
+            const selected = value.byWeekday?.includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`w-10 h-8 rounded-md text-xs font-medium transition-colors ${
+                  selected
+                    ? 'bg-blue-600 text-white shadow-sm'
+                    : 'bg-slate-100 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value && preset === 'monthly' && (
+        <select
+          value={value.byNthWeekday ? 'nth' : 'day'}
+          onChange={(e) => e.target.value === 'nth'
+            ? update({ byNthWeekday: nth, byMonthDay: undefined })
+            : update({ byMonthDay: anchor.getDate(), byNthWeekday: undefined })}
+          className={`${inputClass} w-full cursor-pointer`}
+        >
+          <option value="day">On day {anchor.getDate()}</option>
+          <option value="nth">On the {nth.n < 0 ? 'last' : ORDINALS[nth.n - 1]} {WEEKDAY_SHORT[nth.weekday]}</option>
+        </select>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <span>Ends</span>
+          <select
+            value={endMode}
+            onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+            className={`${inputClass} cursor-pointer`}
+          >
+            <option value="never">Never</option>
+            <option value="count">After</option>
+            <option value="until">On date</option>
+          </select>
+          {endMode === 'count' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                max={999}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className={`${inputClass} w-20`}
+              />
+              <span>occurrences</span>
+            </>
+          )}
+          {endMode === 'until' && (
+            <DatePicker
+              value={value.until || date}
+              onChange={(until) => update({ until })}
+              className="flex-1 min-w-[10rem]"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { BellPlus, X } from 'lucide-react';
+import { REMINDER_PRESETS, formatLeadTime, formatLeadTimeShort } from '../utils/reminders';
+
+interface ReminderEditorProps {
+  value: number[]; // Lead times in minutes
+  onChange: (offsets: number[]) => void;
+}
+
+export const ReminderEditor: React.FC<ReminderEditorProps> = ({ value, onChange }) => {
+  const sorted = [...value].sort((a, b) => b - a);
+  const available = REMINDER_PRESETS.filter(p => !value.includes(p));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {sorted.map(offset => (
+        <span
+          key={offset}
+          className="flex items-center gap-1 pl-2.5 pr-1 py-1 text-xs font-medium rounded-md bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+          title={`${formatLeadTime(offset)} before`}
+        >
+          {formatLeadTimeShort(offset)} before
+          <button
+            type="button"
+            onClick={() => onChange(value.filter(v => v !== offset))}
+            className="p-0.5 rounded hover:bg-blue-100 dark:hover:bg-blue-800/50 transition-colors"
+            title="Remove reminder"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+
+      {available.length > 0 && (
+        <div className="relative flex items-center">
+          <BellPlus size={14} className="absolute left-2 text-slate-400 pointer-events-none" />
+          <select
+            value=""
+            onChange={(e) => onChange([...value, parseInt(e.target.value, 10)])}
+            className="pl-7 pr-2 py-1 text-xs bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-md text-slate-600 dark:text-slate-300 cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="" disabled>Add reminder</option>
+            {available.map(offset => (
+              <option key={offset} value={offset}>{formatLeadTime(offset)} before</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {value.length === 0 && (
+        <span className="text-xs text-slate-400 italic">Only at the due time</span>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,19 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { AppSettings, SoundMode, FirebaseConfig } from '../types';
+import { AppSettings, AlarmSound, Priority, SoundMode, FirebaseConfig, SyncStatus, SyncProviderId, SyncUser } from '../types';
 import { Modal } from './ui/Modal';
-import { Volume2, Music, Mic, FileAudio, Upload, Clock, Repeat, AlertCircle, VolumeX, Play, Sun, Moon, Palette, CheckCircle2, Cloud, LogIn, LogOut, Save } from 'lucide-react';
+import { Volume2, Music, Mic, FileAudio, Upload, Clock, Repeat, AlertCircle, VolumeX, Play, Sun, Moon, Palette, CheckCircle2, Cloud, LogIn, LogOut, Save, BellRing, Flame, Server, FolderSync, Bell, Siren, Star, Trash2, Flag, Music2, AudioWaveform, TriangleAlert, TrendingUp } from 'lucide-react';
+import { ReminderEditor } from './ReminderEditor';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { EncryptionSettings } from './EncryptionSettings';
+import { VoiceSettings } from './VoiceSettings';
+import { QuietHoursSettings } from './QuietHoursSettings';
 import { audioService } from '../services/audioService';
 import { syncService } from '../services/syncService';
-import { User } from 'firebase/auth';
+import { soundRepository, StoredSound } from '../services/soundRepository';
+import { SoundSelect } from './SoundSelect';
+import { SOUND_LABELS, removeSoundFromPriorities } from '../utils/sounds';
+import { isToneId } from '../utils/tones';
+import { formatTime } from '../utils/date';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -15,15 +24,51 @@ interface SettingsModalProps {
 
 type Tab = 'general' | 'cloud';
 
+const SYNC_PROVIDERS: { id: SyncProviderId; label: string; description: string }[] = [
+  { id: 'firebase', label: 'Firebase', description: 'Connect to your own Firebase project and sign in with Google.' },
+  { id: 'rest', label: 'REST', description: 'Sync with a self-hosted server that stores the tasks as JSON at {URL}/tasks.' },
+  { id: 'webdav', label: 'WebDAV', description: 'Keep the tasks in a file on a WebDAV share such as Nextcloud.' },
+];
+
+const PROVIDER_ICONS: Record<SyncProviderId, typeof Cloud> = { firebase: Flame, rest: Server, webdav: FolderSync };
+
+const inputClass = "w-full p-2 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-slate-800 dark:text-slate-200";
+
+const MAX_SOUND_SIZE = 10 * 1024 * 1024;
+
+const SOUND_MODES: { value: SoundMode; icon: typeof Music }[] = [
+  { value: 'bell', icon: Music },
+  { value: 'chime', icon: Bell },
+  { value: 'marimba', icon: Music2 },
+  { value: 'beep', icon: AudioWaveform },
+  { value: 'urgent', icon: TriangleAlert },
+  { value: 'siren', icon: Siren },
+  { value: 'tts', icon: Mic },
+  { value: 'custom', icon: FileAudio },
+];
+
+const PRIORITIES: { value: Priority; label: string; color: string }[] = [
+  { value: 'high', label: 'High', color: 'text-red-500' },
+  { value: 'medium', label: 'Medium', color: 'text-amber-500' },
+  { value: 'low', label: 'Low', color: 'text-blue-500' },
+];
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [activeTab, setActiveTab] = useState<Tab>('general');
-  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewKey, setPreviewKey] = useState<string | null>(null); // "app", a priority or a library sound id
+  const [sounds, setSounds] = useState<StoredSound[]>([]);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   
   // Cloud State
+  const [provider, setProvider] = useState<SyncProviderId>(settings.syncProvider);
   const [jsonConfig, setJsonConfig] = useState('');
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [restConfig, setRestConfig] = useState({ baseUrl: '', token: '' });
+  const [webdavConfig, setWebdavConfig] = useState({ url: '', username: '', password: '' });
+  const [currentUser, setCurrentUser] = useState<SyncUser | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => syncService.getStatus());
 
   useEffect(() => {
     const loadVoices = () => {
@@ -40,90 +85,168 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
 
   useEffect(() => {
     if (isOpen) {
-        // Pre-fill JSON config if exists
+        // Pre-fill the saved configuration
+        setProvider(settings.syncProvider);
         if (settings.firebaseConfig) {
             setJsonConfig(JSON.stringify(settings.firebaseConfig, null, 2));
         }
+        setRestConfig({ baseUrl: settings.restSyncConfig?.baseUrl || '', token: settings.restSyncConfig?.token || '' });
+        setWebdavConfig({
+            url: settings.webdavSyncConfig?.url || '',
+            username: settings.webdavSyncConfig?.username || '',
+            password: settings.webdavSyncConfig?.password || '',
+        });
         
-        // Listen to Auth State if initialized
-        if (syncService.isInitialized()) {
-             const unsub = syncService.onAuthChange((user) => {
-                 setCurrentUser(user);
-             });
-             return () => unsub && unsub();
-        }
+        // Listen to Auth State
+        return syncService.onAuthChange(setCurrentUser);
+    }
+  }, [isOpen, settings.syncProvider, settings.firebaseConfig, settings.restSyncConfig, settings.webdavSyncConfig]);
+
+  useEffect(() => {
+    if (isOpen) return syncService.onStatusChange(setSyncStatus);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen) {
+      soundRepository.getAll().then(setSounds).catch(e => console.error("Failed to load sounds:", e));
     }
-  }, [isOpen, settings.firebaseConfig]);
+  }, [isOpen]);
+
+  const isPreviewing = previewKey !== null;
 
   // Stop preview if modal is closed
   useEffect(() => {
     if (!isOpen && isPreviewing) {
         audioService.stop();
-        setIsPreviewing(false);
+        setPreviewKey(null);
     }
   }, [isOpen, isPreviewing]);
 
   const handleClose = () => {
     if (isPreviewing) {
         audioService.stop();
-        setIsPreviewing(false);
+        setPreviewKey(null);
     }
     onClose();
   };
 
-  const togglePreview = () => {
-    if (isPreviewing) {
+  // Starting a preview stops the one before, whose end callback clears its key first
+  const playPreview = (key: string, sound: AlarmSound) => {
+    if (previewKey === key) {
         audioService.stop();
-        setIsPreviewing(false);
-    } else {
-        setIsPreviewing(true);
-        audioService.playNotification(settings, "Test Notification", () => {
-            setIsPreviewing(false);
-        });
+        return;
     }
+    const announcement = { title: "Test Notification", time: formatTime(new Date()), priority: 'medium' as const, leadMinutes: 0, overdueMinutes: 0 };
+    audioService.playNotification(settings, sound, [announcement], () => {
+        setPreviewKey(current => current === key ? null : current);
+    }, true);
+    setPreviewKey(key);
+  };
+
+  const togglePreview = () => {
+    if (isPreviewing) audioService.stop();
+    else playPreview('app', { mode: settings.soundMode });
   };
 
   // Setting Handlers
   const handleThemeChange = (theme: 'light' | 'dark') => onSave({ ...settings, theme });
   const handleAutoCompleteChange = (e: React.ChangeEvent<HTMLInputElement>) => onSave({ ...settings, autoComplete: e.target.checked });
-  const handleModeChange = (mode: SoundMode) => onSave({ ...settings, soundMode: mode });
+  const handleCompleteWithSubtasksChange = (e: React.ChangeEvent<HTMLInputElement>) => onSave({ ...settings, completeWithSubtasks: e.target.checked });
+  const handleModeChange = (mode: SoundMode) => {
+    onSave({ ...settings, soundMode: mode });
+    // Picking a tone plays it once, so the tones can be compared quickly
+    if (isToneId(mode)) audioService.previewTone(mode, settings.volume);
+  };
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => onSave({ ...settings, volume: parseFloat(e.target.value) });
   const handleDurationChange = (e: React.ChangeEvent<HTMLInputElement>) => onSave({ ...settings, audioDuration: parseInt(e.target.value, 10) });
   const handleLoopChange = (e: React.ChangeEvent<HTMLInputElement>) => onSave({ ...settings, audioLoop: e.target.checked });
-  const handleVoiceChange = (e: React.ChangeEvent<HTMLSelectElement>) => onSave({ ...settings, voiceURI: e.target.value || null });
+  const handleEscalateChange = (e: React.ChangeEvent<HTMLInputElement>) => onSave({ ...settings, audioEscalate: e.target.checked });
+  const handleDefaultRemindersChange = (offsets: number[]) => onSave({ ...settings, defaultReminders: offsets });
+
+  const handlePrioritySoundChange = (priority: Priority, sound: AlarmSound | undefined) => {
+    const prioritySounds = { ...settings.prioritySounds };
+    if (sound) prioritySounds[priority] = sound;
+    else delete prioritySounds[priority];
+    onSave({ ...settings, prioritySounds });
+  };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+  const setCustomSound = (sound: StoredSound) => onSave({ ...settings, soundMode: 'custom', customSoundId: sound.id, customSoundName: sound.name });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
     e.target.value = '';
 
-    if (file) {
-      if (file.size > 3 * 1024 * 1024) { 
-        alert("File is too large. Please select an MP3 under 3MB.");
-        return;
+    const tooLarge = files.filter(file => file.size > MAX_SOUND_SIZE);
+    if (tooLarge.length > 0) {
+      alert(`Files larger than 10MB cannot be added: ${tooLarge.map(f => f.name).join(', ')}`);
+    }
+
+    try {
+      // Files are stored as Blobs in IndexedDB
+      const added: StoredSound[] = [];
+      for (const file of files.filter(f => f.size <= MAX_SOUND_SIZE)) {
+        added.push(await soundRepository.add(file.name, file));
       }
+      setSounds([...sounds, ...added]);
+      // The first upload becomes the custom sound
+      if (added.length > 0 && !settings.customSoundId) setCustomSound(added[0]);
+    } catch (err) {
+      console.error("Failed to store sound", err);
+      alert("Could not save the audio file.");
+    }
+  };
 
-      const reader = new FileReader();
-      reader.onload = () => {
-        const base64String = reader.result as string;
-        audioService.clearCustomCache();
-        onSave({ ...settings, customSoundData: base64String, customSoundName: file.name });
-      };
-      reader.readAsDataURL(file);
+  const deleteSound = async (sound: StoredSound) => {
+    if (!confirm(`Delete "${sound.name}"? Tasks using it will ring with the bell.`)) return;
+    try {
+      if (previewKey === sound.id) audioService.stop();
+      await soundRepository.delete(sound.id);
+      audioService.evictSound(sound.id);
+      setSounds(sounds.filter(s => s.id !== sound.id));
+      const isDefault = settings.customSoundId === sound.id;
+      onSave({
+        ...settings,
+        prioritySounds: removeSoundFromPriorities(settings.prioritySounds, sound.id),
+        ...(isDefault ? { customSoundId: null, customSoundName: null } : {}),
+        ...(isDefault && settings.soundMode === 'custom' ? { soundMode: 'bell' } : {}),
+      });
+    } catch (err) {
+      console.error("Failed to delete sound", err);
+      alert("Could not delete the audio file.");
     }
   };
 
   // Cloud Handlers
   const saveCloudConfig = () => {
-      try {
-          const config: FirebaseConfig = JSON.parse(jsonConfig);
-          if (!config.apiKey || !config.projectId) throw new Error("Invalid Config");
-          
-          onSave({ ...settings, firebaseConfig: config });
-          // Re-init logic handled in App effect
-          alert("Configuration saved. The app will attempt to connect.");
-      } catch (e) {
-          alert("Invalid JSON configuration. Please check your format.");
+      if (provider === 'firebase') {
+          try {
+              const config: FirebaseConfig = JSON.parse(jsonConfig);
+              if (!config.apiKey || !config.projectId) throw new Error("Invalid Config");
+              onSave({ ...settings, syncProvider: provider, firebaseConfig: config });
+          } catch (e) {
+              alert("Invalid JSON configuration. Please check your format.");
+              return;
+          }
+      } else {
+          const url = provider === 'rest' ? restConfig.baseUrl : webdavConfig.url;
+          try {
+              if (!/^https?:$/.test(new URL(url.trim()).protocol)) throw new Error("Invalid URL");
+          } catch (e) {
+              alert("Please enter a valid http(s) URL.");
+              return;
+          }
+          if (provider === 'rest') {
+              onSave({ ...settings, syncProvider: provider, restSyncConfig: { baseUrl: restConfig.baseUrl.trim(), token: restConfig.token || undefined } });
+          } else {
+              onSave({
+                  ...settings,
+                  syncProvider: provider,
+                  webdavSyncConfig: { url: webdavConfig.url.trim(), username: webdavConfig.username || undefined, password: webdavConfig.password || undefined },
+              });
+          }
       }
+      // Re-init logic handled in App effect
+      alert("Configuration saved. The app will attempt to connect.");
   };
 
   const handleLogin = async () => {
@@ -216,6 +339,29 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                         <span className="text-xs text-slate-500 dark:text-slate-400">Mark tasks as completed when notification triggers</span>
                     </div>
                 </label>
+                <label className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800/50 transition-colors">
+                    <input 
+                        type="checkbox"
+                        checked={settings.completeWithSubtasks}
+                        onChange={handleCompleteWithSubtasksChange}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <div className="flex flex-col">
+                        <span className="text-sm font-medium text-slate-700 dark:text-slate-200">Complete with Checklist</span>
+                        <span className="text-xs text-slate-500 dark:text-slate-400">Mark a task as completed when its last checklist item is checked</span>
+                    </div>
+                </label>
+            </div>
+
+            <div className="border-t border-slate-100 dark:border-slate-700" />
+
+            {/* Default Reminders */}
+            <div className="space-y-3">
+                <label className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                <BellRing size={16} /> Default Reminders
+                </label>
+                <ReminderEditor value={settings.defaultReminders} onChange={handleDefaultRemindersChange} />
+                <p className="text-xs text-slate-400">Advance reminders added to every new task.</p>
             </div>
 
             <div className="border-t border-slate-100 dark:border-slate-700" />
@@ -223,73 +369,69 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
             {/* Sound Mode Selection */}
             <div className="space-y-3">
             <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Notification Sound</label>
-            <div className="grid grid-cols-3 gap-3">
-                <button
-                onClick={() => handleModeChange('bell')}
-                className={`flex flex-col items-center p-3 rounded-lg border transition-all ${
-                    settings.soundMode === 'bell' 
-                    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300' 
-                    : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
-                }`}
-                >
-                <Music size={24} className="mb-2" />
-                <span className="text-xs font-medium">Bell</span>
-                </button>
-                <button
-                onClick={() => handleModeChange('tts')}
-                className={`flex flex-col items-center p-3 rounded-lg border transition-all ${
-                    settings.soundMode === 'tts' 
-                    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300' 
-                    : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
-                }`}
-                >
-                <Mic size={24} className="mb-2" />
-                <span className="text-xs font-medium">Speak</span>
-                </button>
-                <button
-                onClick={() => handleModeChange('custom')}
-                className={`flex flex-col items-center p-3 rounded-lg border transition-all ${
-                    settings.soundMode === 'custom' 
-                    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300' 
-                    : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
-                }`}
-                >
-                <FileAudio size={24} className="mb-2" />
-                <span className="text-xs font-medium">Custom</span>
-                </button>
+            <div className="grid grid-cols-4 gap-3">
+                {SOUND_MODES.map(({ value, icon: Icon }) => (
+                    <button
+                    key={value}
+                    onClick={() => handleModeChange(value)}
+                    className={`flex flex-col items-center p-3 rounded-lg border transition-all ${
+                        settings.soundMode === value 
+                        ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300' 
+                        : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
+                    }`}
+                    >
+                    <Icon size={24} className="mb-2" />
+                    <span className="text-xs font-medium text-center">{SOUND_LABELS[value]}</span>
+                    </button>
+                ))}
+            </div>
+            {settings.soundMode === 'custom' && !settings.customSoundId && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">Mark a sound in the library below as the custom sound. Until then the bell rings.</p>
+            )}
             </div>
+
+            {/* Priority Sounds */}
+            <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-700 dark:text-slate-300 block">Sound by Priority</label>
+                {PRIORITIES.map(({ value, label, color }) => {
+                    const sound = settings.prioritySounds[value];
+                    return (
+                        <div key={value} className="flex items-center gap-2">
+                            <span className="w-20 shrink-0 flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-300">
+                                <Flag size={14} className={color} /> {label}
+                            </span>
+                            <SoundSelect
+                                value={sound}
+                                onChange={(next) => handlePrioritySoundChange(value, next)}
+                                sounds={sounds}
+                                defaultLabel="Notification sound"
+                            />
+                            <button
+                                onClick={() => playPreview(value, sound || { mode: settings.soundMode })}
+                                className="p-2 text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                                title={previewKey === value ? 'Stop' : 'Preview'}
+                            >
+                                {previewKey === value ? <VolumeX size={16} /> : <Play size={16} />}
+                            </button>
+                        </div>
+                    );
+                })}
+                <p className="text-xs text-slate-400">A sound picked for a list or a single task takes precedence.</p>
             </div>
 
-            {/* Voice Selector for TTS */}
-            {settings.soundMode === 'tts' && voices.length > 0 && (
-                <div className="animate-in slide-in-from-top-2 duration-300">
-                    <label className="text-sm font-medium text-slate-700 dark:text-slate-300 block mb-2">Voice</label>
-                    <select
-                        value={settings.voiceURI || ''}
-                        onChange={handleVoiceChange}
-                        className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
-                    >
-                        <option value="">Default Voice</option>
-                        {voices.map(voice => (
-                            <option key={voice.voiceURI} value={voice.voiceURI}>
-                                {voice.name} ({voice.lang})
-                            </option>
-                        ))}
-                    </select>
-                </div>
+            {/* Voice and Announcement for TTS */}
+            {(settings.soundMode === 'tts' || PRIORITIES.some(({ value }) => settings.prioritySounds[value]?.mode === 'tts')) && (
+                <VoiceSettings settings={settings} onSave={onSave} voices={voices} />
             )}
 
-            {/* Custom File Upload */}
-            {settings.soundMode === 'custom' && (
-            <div className="animate-in slide-in-from-top-2 duration-300">
-                <label className="text-sm font-medium text-slate-700 dark:text-slate-300 block mb-2">Custom Audio File (MP3)</label>
-                <div className="flex items-center gap-2 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
-                    <div className={`flex-1 truncate text-sm ${settings.customSoundName ? 'text-slate-700 dark:text-slate-200 font-medium' : 'text-slate-400 italic'}`}>
-                    {settings.customSoundName || "No file selected"}
-                    </div>
+            {/* Sound Library */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Sound Library</label>
                     <input 
                     type="file" 
-                    accept=".mp3,audio/mpeg,audio/mp3" 
+                    accept=".mp3,audio/*" 
+                    multiple
                     ref={fileInputRef} 
                     onChange={handleFileChange}
                     className="hidden" 
@@ -298,15 +440,51 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                     onClick={() => fileInputRef.current?.click()}
                     className="bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 px-3 py-1.5 rounded-md text-sm font-medium transition-colors flex items-center gap-2 shadow-sm"
                     >
-                    <Upload size={14} /> Browse...
+                    <Upload size={14} /> Add Sounds
                     </button>
                 </div>
-                <div className="flex items-start gap-1.5 mt-2">
+                {sounds.length === 0 ? (
+                    <p className="p-3 text-sm text-slate-400 italic bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">No sounds uploaded</p>
+                ) : (
+                    <ul className="divide-y divide-slate-100 dark:divide-slate-700 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                        {sounds.map(sound => {
+                            const isDefault = settings.customSoundId === sound.id;
+                            return (
+                                <li key={sound.id} className="flex items-center gap-2 px-3 py-2">
+                                    <FileAudio size={16} className="text-slate-400 shrink-0" />
+                                    <span className="flex-1 min-w-0 truncate text-sm text-slate-700 dark:text-slate-200">{sound.name}</span>
+                                    <span className="text-xs text-slate-400 whitespace-nowrap">{formatSize(sound.blob.size)}</span>
+                                    <button
+                                        onClick={() => playPreview(sound.id, { mode: 'custom', soundId: sound.id })}
+                                        className="p-1 text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 rounded transition-colors"
+                                        title={previewKey === sound.id ? 'Stop' : 'Preview'}
+                                    >
+                                        {previewKey === sound.id ? <VolumeX size={16} /> : <Play size={16} />}
+                                    </button>
+                                    <button
+                                        onClick={() => setCustomSound(sound)}
+                                        className={`p-1 rounded transition-colors ${isDefault ? 'text-amber-500' : 'text-slate-400 hover:text-amber-500'}`}
+                                        title={isDefault ? 'Custom sound' : 'Use as custom sound'}
+                                    >
+                                        <Star size={16} fill={isDefault ? 'currentColor' : 'none'} />
+                                    </button>
+                                    <button
+                                        onClick={() => deleteSound(sound)}
+                                        className="p-1 text-slate-400 hover:text-red-500 dark:hover:text-red-400 rounded transition-colors"
+                                        title="Delete"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+                <div className="flex items-start gap-1.5">
                     <AlertCircle size={12} className="text-slate-400 mt-0.5 shrink-0" />
-                    <p className="text-xs text-slate-400">Max 3MB. MP3 format recommended. File is saved to your browser.</p>
+                    <p className="text-xs text-slate-400">Max 10MB each. MP3 format recommended. Sounds are saved to this browser and can be picked per priority or per task.</p>
                 </div>
             </div>
-            )}
 
             {/* Volume Control */}
             <div className="space-y-3">
@@ -358,34 +536,136 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                         />
                         <span className="text-sm text-slate-600 dark:text-slate-300">Play Continuously</span>
                     </label>
+                    <label
+                        className="flex items-center gap-3 p-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800/50 transition-colors"
+                        title="Starts at a lower volume and gets louder and faster until the max duration"
+                    >
+                        <input 
+                            type="checkbox"
+                            checked={settings.audioEscalate}
+                            onChange={handleEscalateChange}
+                            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                        />
+                        <span className="flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-300"><TrendingUp size={14} /> Escalate</span>
+                    </label>
                 </div>
             </div>
+
+            <div className="border-t border-slate-100 dark:border-slate-700" />
+
+            <QuietHoursSettings settings={settings} onSave={onSave} />
         </>
         ) : (
         /* Cloud Tab */
         <div className="space-y-6 animate-in slide-in-from-right-2 duration-300">
+            <div className="grid grid-cols-3 gap-3">
+                {SYNC_PROVIDERS.map(option => {
+                    const Icon = PROVIDER_ICONS[option.id];
+                    return (
+                        <button
+                            key={option.id}
+                            onClick={() => setProvider(option.id)}
+                            className={`flex flex-col items-center p-3 rounded-lg border transition-all ${
+                                provider === option.id
+                                ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+                                : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
+                            }`}
+                        >
+                            <Icon size={24} className="mb-2" />
+                            <span className="text-xs font-medium">{option.label}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
             <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-100 dark:border-blue-800/50">
                 <div className="flex gap-3">
                     <Cloud className="text-blue-600 dark:text-blue-400 shrink-0" size={24} />
                     <div>
-                        <h3 className="text-sm font-semibold text-blue-800 dark:text-blue-300">Firebase Synchronization</h3>
+                        <h3 className="text-sm font-semibold text-blue-800 dark:text-blue-300">
+                            {SYNC_PROVIDERS.find(o => o.id === provider)?.label} Synchronization
+                        </h3>
                         <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                            Connect to your own Firebase project to sync tasks across devices.
+                            {SYNC_PROVIDERS.find(o => o.id === provider)?.description}
                         </p>
                     </div>
                 </div>
             </div>
 
             <div className="space-y-3">
-                <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                    Firebase Config JSON
-                </label>
-                <textarea 
-                    value={jsonConfig}
-                    onChange={(e) => setJsonConfig(e.target.value)}
-                    placeholder='{ "apiKey": "...", "authDomain": "...", "projectId": "..." }'
-                    className="w-full h-32 p-3 text-xs font-mono bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                {provider === 'firebase' && (
+                    <>
+                        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            Firebase Config JSON
+                        </label>
+                        <textarea 
+                            value={jsonConfig}
+                            onChange={(e) => setJsonConfig(e.target.value)}
+                            placeholder='{ "apiKey": "...", "authDomain": "...", "projectId": "..." }'
+                            className="w-full h-32 p-3 text-xs font-mono bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </>
+                )}
+
+                {provider === 'rest' && (
+                    <>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Server URL</label>
+                        <input
+                            type="url"
+                            value={restConfig.baseUrl}
+                            onChange={(e) => setRestConfig({ ...restConfig, baseUrl: e.target.value })}
+                            placeholder="https://sync.example.com/api"
+                            className={inputClass}
+                        />
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Access Token (optional)</label>
+                        <input
+                            type="password"
+                            value={restConfig.token}
+                            onChange={(e) => setRestConfig({ ...restConfig, token: e.target.value })}
+                            autoComplete="off"
+                            className={inputClass}
+                        />
+                    </>
+                )}
+
+                {provider === 'webdav' && (
+                    <>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Folder URL</label>
+                        <input
+                            type="url"
+                            value={webdavConfig.url}
+                            onChange={(e) => setWebdavConfig({ ...webdavConfig, url: e.target.value })}
+                            placeholder="https://cloud.example.com/remote.php/dav/files/me/WinDo"
+                            className={inputClass}
+                        />
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Username</label>
+                                <input
+                                    type="text"
+                                    value={webdavConfig.username}
+                                    onChange={(e) => setWebdavConfig({ ...webdavConfig, username: e.target.value })}
+                                    autoComplete="username"
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Password</label>
+                                <input
+                                    type="password"
+                                    value={webdavConfig.password}
+                                    onChange={(e) => setWebdavConfig({ ...webdavConfig, password: e.target.value })}
+                                    autoComplete="current-password"
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            The server must allow requests from this site (CORS). Credentials are stored on this device.
+                        </p>
+                    </>
+                )}
+
                 <div className="flex justify-end">
                     <button 
                         onClick={saveCloudConfig}
@@ -402,30 +682,39 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                 <div>
                     <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">Account Status</h4>
                     <p className="text-xs text-slate-500 dark:text-slate-400">
-                        {currentUser ? `Signed in as ${currentUser.email}` : 'Not signed in'}
+                        {currentUser ? `Signed in as ${currentUser.label}` : 'Not signed in'}
                     </p>
                 </div>
                 
-                {syncService.isInitialized() ? (
+                {syncService.isInitialized() && provider === settings.syncProvider ? (
                     currentUser ? (
                         <button 
                             onClick={handleLogout}
                             className="flex items-center gap-2 px-4 py-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg text-sm font-medium transition-colors"
                         >
-                            <LogOut size={16} /> Sign Out
+                            <LogOut size={16} /> {provider === 'firebase' ? 'Sign Out' : 'Disconnect'}
                         </button>
                     ) : (
                         <button 
                             onClick={handleLogin}
                             className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
                         >
-                            <LogIn size={16} /> Sign In with Google
+                            <LogIn size={16} /> {provider === 'firebase' ? 'Sign In with Google' : 'Connect'}
                         </button>
                     )
                 ) : (
                     <span className="text-xs text-amber-500 font-medium">Config Required</span>
                 )}
             </div>
+
+            {currentUser && (
+                <>
+                    <div className="border-t border-slate-100 dark:border-slate-700" />
+                    <SyncStatusIndicator status={syncStatus} onRetry={() => syncService.retryNow()} variant="detailed" />
+                    <div className="border-t border-slate-100 dark:border-slate-700" />
+                    <EncryptionSettings status={syncStatus} />
+                </>
+            )}
         </div>
         )}
 
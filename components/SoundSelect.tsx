@@ -0,0 +1,42 @@
+import React from 'react';
+import { AlarmSound, SoundMode } from '../types';
+import { StoredSound } from '../services/soundRepository';
+import { SOUND_LABELS, decodeSound, encodeSound } from '../utils/sounds';
+import { TONE_IDS } from '../utils/tones';
+
+interface SoundSelectProps {
+  value: AlarmSound | undefined;
+  onChange: (sound: AlarmSound | undefined) => void;
+  sounds: StoredSound[]; // The sound library
+  defaultLabel: string; // Option for "no override"
+  className?: string;
+}
+
+const MODES: SoundMode[] = [...TONE_IDS, 'tts'];
+
+export const SoundSelect: React.FC<SoundSelectProps> = ({ value, onChange, sounds, defaultLabel, className = '' }) => {
+  const selected = encodeSound(value);
+  // A sound deleted from the library (or uploaded on another device) still shows up as selected
+  const isMissing = value?.mode === 'custom' && !!value.soundId && !sounds.some(s => s.id === value.soundId);
+
+  return (
+    <select
+      value={selected}
+      onChange={(e) => onChange(decodeSound(e.target.value, value?.phrase))}
+      className={`w-full px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all cursor-pointer ${className}`}
+    >
+      <option value="">{defaultLabel}</option>
+      {MODES.map(mode => (
+        <option key={mode} value={mode}>{SOUND_LABELS[mode]}</option>
+      ))}
+      {sounds.length > 0 && (
+        <optgroup label="Sound Library">
+          {sounds.map(sound => (
+            <option key={sound.id} value={`custom:${sound.id}`}>{sound.name}</option>
+          ))}
+        </optgroup>
+      )}
+      {isMissing && <option value={selected}>Sound not on this device (bell)</option>}
+    </select>
+  );
+};
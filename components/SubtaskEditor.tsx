@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { GripVertical, Plus, X, CheckCircle2, Circle } from 'lucide-react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { Subtask } from '../types';
+import { createSubtask, moveSubtask } from '../utils/subtasks';
+
+interface SubtaskEditorProps {
+  value: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+}
+
+interface SubtaskRowProps {
+  subtask: Subtask;
+  onChange: (subtask: Subtask) => void;
+  onRemove: () => void;
+  onMove: (offset: number) => void;
+}
+
+const inputClass = "bg-transparent text-sm text-slate-700 dark:text-slate-200 focus:outline-none";
+
+const SubtaskRow: React.FC<SubtaskRowProps> = ({ subtask, onChange, onRemove, onMove }) => {
+  const controls = useDragControls();
+
+  // Alt+Up/Down moves the item without dragging
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      onMove(e.key === 'ArrowUp' ? -1 : 1);
+    }
+  };
+
+  return (
+    <Reorder.Item
+      value={subtask}
+      id={subtask.id}
+      dragListener={false}
+      dragControls={controls}
+      className="flex items-center gap-2 px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg"
+    >
+      <div
+        className="touch-none cursor-grab active:cursor-grabbing text-slate-300 dark:text-slate-600 hover:text-slate-500 dark:hover:text-slate-400"
+        onPointerDown={(e) => controls.start(e)}
+      >
+        <GripVertical size={16} />
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange({ ...subtask, completed: !subtask.completed })}
+        className={`flex-shrink-0 transition-colors ${subtask.completed ? 'text-green-500 dark:text-green-400' : 'text-slate-300 dark:text-slate-600 hover:text-blue-500 dark:hover:text-blue-400'}`}
+      >
+        {subtask.completed ? <CheckCircle2 size={18} /> : <Circle size={18} />}
+      </button>
+      <input
+        type="text"
+        value={subtask.title}
+        onChange={(e) => onChange({ ...subtask, title: e.target.value })}
+        onKeyDown={handleKeyDown}
+        className={`${inputClass} flex-1 min-w-0 ${subtask.completed ? 'line-through text-slate-400 dark:text-slate-500' : ''}`}
+      />
+      <input
+        type="time"
+        value={subtask.time || ''}
+        onChange={(e) => onChange({ ...subtask, time: e.target.value || undefined })}
+        className={`${inputClass} w-24 font-mono text-slate-500 dark:text-slate-400 color-scheme-dark`}
+        title="Due time (optional)"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-1 text-slate-400 hover:text-red-500 dark:hover:text-red-400 rounded transition-colors"
+        title="Remove Item"
+      >
+        <X size={14} />
+      </button>
+    </Reorder.Item>
+  );
+};
+
+export const SubtaskEditor: React.FC<SubtaskEditorProps> = ({ value, onChange }) => {
+  const [input, setInput] = useState('');
+
+  const addSubtask = () => {
+    const title = input.trim();
+    if (title) onChange([...value, createSubtask(title)]);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addSubtask();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <Reorder.Group axis="y" values={value} onReorder={onChange} className="space-y-1.5">
+          {value.map((subtask, index) => (
+            <SubtaskRow
+              key={subtask.id}
+              subtask={subtask}
+              onChange={(updated) => onChange(value.map(s => s.id === updated.id ? updated : s))}
+              onRemove={() => onChange(value.filter(s => s.id !== subtask.id))}
+              onMove={(offset) => onChange(moveSubtask(value, index, index + offset))}
+            />
+          ))}
+        </Reorder.Group>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Add an item"
+          className="flex-1 px-3 py-2 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 text-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all placeholder:text-slate-400"
+        />
+        <button
+          type="button"
+          onClick={addSubtask}
+          disabled={!input.trim()}
+          className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50 rounded-lg transition-colors"
+          title="Add Item"
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertCircle } from 'lucide-react';
+import { SyncStatus } from '../types';
+import { formatTimeAgo } from '../utils/date';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  onRetry: () => void;
+  variant?: 'icon' | 'detailed'; // Header icon, or a row with text for the settings
+}
+
+const STATE_LABELS: Record<SyncStatus['state'], string> = {
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline',
+  error: 'Sync failed',
+};
+
+const STATE_COLORS: Record<SyncStatus['state'], string> = {
+  idle: 'text-blue-500 dark:text-blue-400',
+  syncing: 'text-blue-500 dark:text-blue-400',
+  offline: 'text-slate-400 dark:text-slate-500',
+  error: 'text-red-500 dark:text-red-400',
+};
+
+// e.g. "3 pending changes · Last synced 5 min ago"
+const describeDetails = (status: SyncStatus) => {
+  const parts: string[] = [];
+  if (status.pending > 0) parts.push(`${status.pending} pending change${status.pending === 1 ? '' : 's'}`);
+  parts.push(status.lastSyncedAt ? `Last synced ${formatTimeAgo(status.lastSyncedAt)}` : 'Never synced');
+  return parts.join(' · ');
+};
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status, onRetry, variant = 'icon' }) => {
+  const Icon = status.state === 'error' ? AlertCircle : status.state === 'offline' ? CloudOff : status.state === 'syncing' ? RefreshCw : Cloud;
+  const icon = <Icon size={20} className={status.state === 'syncing' ? 'animate-spin' : ''} />;
+  const canRetry = status.state !== 'idle' || status.pending > 0;
+
+  if (variant === 'icon') {
+    return (
+      <button
+        onClick={onRetry}
+        disabled={!canRetry}
+        className={`relative p-2 rounded-lg transition-all enabled:hover:bg-slate-100 dark:enabled:hover:bg-slate-700 ${STATE_COLORS[status.state]}`}
+        title={`${STATE_LABELS[status.state]} · ${describeDetails(status)}${canRetry ? ' (click to retry now)' : ''}`}
+      >
+        {icon}
+        {status.pending > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold leading-4 text-center">
+            {status.pending > 99 ? '99+' : status.pending}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="flex items-center gap-3 min-w-0">
+        <span className={STATE_COLORS[status.state]}>{icon}</span>
+        <div className="min-w-0">
+          <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">{STATE_LABELS[status.state]}</h4>
+          <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+            {describeDetails(status)}
+          </p>
+          {status.error && (
+            <p className="text-xs text-red-500 dark:text-red-400 truncate" title={status.error}>{status.error}</p>
+          )}
+        </div>
+      </div>
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors text-slate-700 dark:text-slate-200 shrink-0"
+        >
+          <RefreshCw size={14} /> Retry now
+        </button>
+      )}
+    </div>
+  );
+};
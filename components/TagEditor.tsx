@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { X, Hash } from 'lucide-react';
+import { normalizeTag } from '../utils/filters';
+
+interface TagEditorProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Tags already used on other tasks
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ value, onChange, suggestions }) => {
+  const [input, setInput] = useState('');
+
+  const addTags = (text: string) => {
+    const added = text.split(',').map(normalizeTag).filter(tag => tag && !value.includes(tag));
+    if (added.length > 0) onChange([...value, ...new Set(added)]);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg focus-within:ring-2 focus-within:ring-blue-500/50 dark:focus-within:ring-blue-500/30 transition-all">
+      {value.map(tag => (
+        <span key={tag} className="flex items-center gap-1 text-xs font-medium text-slate-600 dark:text-slate-300 bg-slate-200 dark:bg-slate-700 pl-2 pr-1 py-0.5 rounded">
+          #{tag}
+          <button
+            type="button"
+            onClick={() => onChange(value.filter(t => t !== tag))}
+            className="p-0.5 text-slate-400 hover:text-red-500 dark:hover:text-red-400 rounded transition-colors"
+            title="Remove Tag"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <div className="flex items-center gap-1 flex-1 min-w-[8rem]">
+        <Hash size={14} className="text-slate-400 shrink-0" />
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input && addTags(input)}
+          list="tag-suggestions"
+          placeholder={value.length === 0 ? 'Add tags' : ''}
+          className="flex-1 bg-transparent text-sm text-slate-800 dark:text-slate-100 focus:outline-none placeholder:text-slate-400"
+        />
+        <datalist id="tag-suggestions">
+          {suggestions.filter(tag => !value.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,14 @@
-import React from 'react';
-import { Task } from '../types';
-import { GripVertical, Trash2, CheckCircle2, Circle, Pencil, Calendar, Flag } from 'lucide-react';
+import React, { useState } from 'react';
+import { Task, TaskList } from '../types';
+import { GripVertical, Trash2, CheckCircle2, Circle, Pencil, Calendar, Flag, Repeat, AlarmClock, Moon, ListChecks, ChevronDown, StickyNote, Paperclip, Video } from 'lucide-react';
+import { describeRecurrence, getNextOccurrenceDate } from '../utils/recurrence';
+import { formatShortDate } from '../utils/date';
+import { formatSnoozeTime } from '../utils/snooze';
 import { Reorder, useDragControls, motion } from 'framer-motion';
+import { ListIcon, LIST_COLORS } from './ListIcon';
+import { getSubtaskProgress } from '../utils/subtasks';
+import { getMeetingUrl } from '../utils/links';
+import { getNotesPreview } from '../utils/markdown';
 
 interface TaskItemProps {
   task: Task;
@@ -9,10 +16,14 @@ interface TaskItemProps {
   onDelete: (id: string) => void;
   onEdit: (task: Task) => void;
   isReorderable?: boolean;
+  list?: TaskList; // Shown as a badge when tasks of several lists are mixed
+  onTagClick?: (tag: string) => void;
+  onToggleSubtask?: (taskId: string, subtaskId: string) => void;
 }
 
-export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, onEdit, isReorderable = false }) => {
+export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, onEdit, isReorderable = false, list, onTagClick, onToggleSubtask }) => {
   const controls = useDragControls();
+  const [isChecklistOpen, setIsChecklistOpen] = useState(false);
 
   const getPriorityColor = (priority: string) => {
       switch (priority) {
@@ -38,7 +49,12 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
       return today.toDateString() === taskDate.toDateString();
   };
 
+  const nextOccurrence = task.recurrence ? getNextOccurrenceDate(task) : null;
+  const progress = getSubtaskProgress(task);
+  const meetingUrl = getMeetingUrl(task);
+
   const content = (
+      <>
       <div className={`relative flex items-center p-3 gap-3 ${getPriorityBorder(task.priority)}`}>
         {/* Completion Flash Animation */}
         {task.completed && (
@@ -89,7 +105,7 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
                 )}
             </div>
             
-            <div className="flex items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500 dark:text-slate-400">
                 <span className={`flex items-center gap-1 ${task.completed ? 'opacity-70' : ''}`}>
                     <Calendar size={12} />
                     {isToday() ? 'Today' : task.date}
@@ -97,6 +113,84 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
                 <span className={`flex items-center gap-1 font-mono ${task.completed ? 'opacity-70' : 'text-blue-600 dark:text-blue-400'}`}>
                     {task.time}
                 </span>
+                {list && (
+                    <span className={`flex items-center gap-1 min-w-0 text-[11px] font-medium px-1.5 py-0.5 rounded ${LIST_COLORS[list.color]?.chip || LIST_COLORS.blue.chip}`}>
+                        <ListIcon icon={list.icon} color={list.color} size={11} />
+                        <span className="truncate">{list.name}</span>
+                    </span>
+                )}
+                {task.tags?.map(tag => (
+                    <button
+                        key={tag}
+                        onClick={() => onTagClick?.(tag)}
+                        className="text-[11px] font-medium text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400 px-1.5 py-0.5 rounded whitespace-nowrap transition-colors"
+                        title={`Show tasks tagged #${tag}`}
+                    >
+                        #{tag}
+                    </button>
+                ))}
+                {progress.total > 0 && (
+                    <button
+                        onClick={() => setIsChecklistOpen(!isChecklistOpen)}
+                        className={`flex items-center gap-1 text-[11px] font-medium px-1.5 py-0.5 rounded whitespace-nowrap transition-colors ${
+                            progress.done === progress.total
+                            ? 'text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30'
+                            : 'text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400'
+                        }`}
+                        title={isChecklistOpen ? 'Hide checklist' : 'Show checklist'}
+                    >
+                        <ListChecks size={11} />
+                        {progress.done}/{progress.total}
+                        <ChevronDown size={11} className={`transition-transform ${isChecklistOpen ? 'rotate-180' : ''}`} />
+                    </button>
+                )}
+                {meetingUrl && !task.completed && (
+                    <a
+                        href={meetingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-[11px] font-medium text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 px-1.5 py-0.5 rounded whitespace-nowrap transition-colors"
+                        title={meetingUrl}
+                    >
+                        <Video size={11} /> Join
+                    </a>
+                )}
+                {task.notes && (
+                    <button
+                        onClick={() => onEdit(task)}
+                        className="flex items-center text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                        title={getNotesPreview(task.notes)}
+                    >
+                        <StickyNote size={12} />
+                    </button>
+                )}
+                {task.attachments && task.attachments.length > 0 && (
+                    <button
+                        onClick={() => onEdit(task)}
+                        className="flex items-center gap-0.5 text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                        title={task.attachments.map(a => a.name).join(', ')}
+                    >
+                        <Paperclip size={12} />
+                        {task.attachments.length > 1 && <span className="text-[11px]">{task.attachments.length}</span>}
+                    </button>
+                )}
+                {task.snoozedUntil && !task.completed && (
+                    <span className="flex items-center gap-1 text-[11px] font-medium text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 px-1.5 py-0.5 rounded whitespace-nowrap">
+                        {task.quietDeferred ? <Moon size={11} /> : <AlarmClock size={11} />}
+                        {task.quietDeferred ? 'Quiet until' : 'Snoozed until'} {formatSnoozeTime(task.snoozedUntil)}
+                    </span>
+                )}
+                {task.recurrence && (
+                    <span 
+                        className="flex items-center gap-1 min-w-0 text-[11px] font-medium text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 px-1.5 py-0.5 rounded"
+                        title={describeRecurrence(task.recurrence)}
+                    >
+                        <Repeat size={11} className="shrink-0" />
+                        <span className="truncate">
+                            {nextOccurrence ? `Next: ${formatShortDate(nextOccurrence)}` : 'Last occurrence'}
+                        </span>
+                    </span>
+                )}
             </div>
         </div>
 
@@ -118,6 +212,31 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
             </button>
         </div>
       </div>
+
+      {/* Checklist */}
+      {isChecklistOpen && progress.total > 0 && (
+        <ul className="relative z-10 pl-[5.25rem] pr-3 pb-3 -mt-1 space-y-1">
+            {task.subtasks!.map(subtask => (
+                <li key={subtask.id} className="flex items-center gap-2 text-sm">
+                    <button
+                        onClick={() => onToggleSubtask?.(task.id, subtask.id)}
+                        className={`flex-shrink-0 transition-colors focus:outline-none rounded-full ${subtask.completed ? 'text-green-500 dark:text-green-400' : 'text-slate-300 dark:text-slate-600 hover:text-blue-500 dark:hover:text-blue-400'}`}
+                    >
+                        {subtask.completed ? <CheckCircle2 size={16} /> : <Circle size={16} />}
+                    </button>
+                    <span className={`flex-1 min-w-0 truncate ${subtask.completed ? 'text-slate-400 dark:text-slate-500 line-through' : 'text-slate-600 dark:text-slate-300'}`}>
+                        {subtask.title}
+                    </span>
+                    {subtask.time && (
+                        <span className={`text-xs font-mono ${subtask.completed ? 'text-slate-400 dark:text-slate-500' : 'text-blue-600 dark:text-blue-400'}`}>
+                            {subtask.time}
+                        </span>
+                    )}
+                </li>
+            ))}
+        </ul>
+      )}
+      </>
   );
 
   const className = "group bg-white dark:bg-slate-800 rounded-lg shadow-sm border-r border-y border-slate-200 dark:border-slate-700 overflow-hidden transition-shadow hover:shadow-md dark:hover:shadow-slate-900/50";
@@ -0,0 +1,29 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdateToastProps {
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+export const UpdateToast: React.FC<UpdateToastProps> = ({ onUpdate, onDismiss }) => {
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 pl-4 pr-2 py-2 bg-slate-800 dark:bg-slate-700 text-white rounded-xl shadow-2xl animate-in slide-in-from-bottom-4 duration-300">
+      <RefreshCw size={16} className="text-blue-300 shrink-0" />
+      <span className="text-sm">A new version of WinDo is available.</span>
+      <button
+        onClick={onUpdate}
+        className="px-3 py-1.5 text-sm font-medium bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors"
+      >
+        Reload
+      </button>
+      <button
+        onClick={onDismiss}
+        className="p-1.5 text-slate-400 hover:text-white rounded-lg transition-colors"
+        title="Later"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React from 'react';
+import { AlertCircle, Gauge, Languages, AudioLines } from 'lucide-react';
+import { AppSettings } from '../types';
+import { ANNOUNCEMENT_PLACEHOLDERS, Announcement, getDefaultTemplate, renderAnnouncement } from '../utils/announcement';
+
+interface VoiceSettingsProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  voices: SpeechSynthesisVoice[];
+}
+
+// Example alarm for the "Says" line under each template
+const SAMPLE: Announcement = { title: 'Team Meeting', time: '14:30', priority: 'high', list: 'Work', leadMinutes: 0, overdueMinutes: 0 };
+const SAMPLE_REMINDER: Announcement = { ...SAMPLE, leadMinutes: 10 };
+
+const selectClass = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer";
+const inputClass = "w-full p-2 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-slate-800 dark:text-slate-200";
+
+const primaryLanguage = (lang: string) => lang.toLowerCase().split(/[-_]/)[0];
+
+const getLanguageName = (code: string) => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(code) || code;
+  } catch (e) {
+    return code;
+  }
+};
+
+export const VoiceSettings: React.FC<VoiceSettingsProps> = ({ settings, onSave, voices }) => {
+  const languages = [...new Set<string>(voices.map(v => primaryLanguage(v.lang)))].sort();
+  const shownVoices = settings.ttsLanguage ? voices.filter(v => primaryLanguage(v.lang) === settings.ttsLanguage) : voices;
+  // Default templates and the sample follow the voice that will speak
+  const language = voices.find(v => v.voiceURI === settings.voiceURI)?.lang || settings.ttsLanguage || navigator.language;
+
+  const handleLanguageChange = (ttsLanguage: string) => {
+    const voice = voices.find(v => v.voiceURI === settings.voiceURI);
+    // A voice of another language would ignore the filter
+    const keepVoice = !ttsLanguage || (voice && primaryLanguage(voice.lang) === ttsLanguage);
+    onSave({ ...settings, ttsLanguage, voiceURI: keepVoice ? settings.voiceURI : null });
+  };
+
+  const renderTemplate = (key: 'ttsTemplate' | 'ttsReminderTemplate', label: string, sample: Announcement) => {
+    const fallback = getDefaultTemplate(sample, language);
+    return (
+      <div>
+        <label className="text-xs font-medium text-slate-600 dark:text-slate-400 block mb-1">{label}</label>
+        <input
+          type="text"
+          value={settings[key]}
+          onChange={(e) => onSave({ ...settings, [key]: e.target.value })}
+          placeholder={fallback}
+          className={inputClass}
+        />
+        <p className="text-xs text-slate-400 mt-1 truncate">
+          Says: “{renderAnnouncement(settings[key].trim() || fallback, sample, language)}”
+        </p>
+      </div>
+    );
+  };
+
+  if (voices.length === 0) {
+    return (
+      <div className="flex items-start gap-1.5 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800/50">
+        <AlertCircle size={14} className="text-amber-500 mt-0.5 shrink-0" />
+        <p className="text-xs text-amber-700 dark:text-amber-300">This browser has no speech voices, so spoken alarms ring the bell instead.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 animate-in slide-in-from-top-2 duration-300">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2 mb-2">
+            <Languages size={16} /> Language
+          </label>
+          <select value={settings.ttsLanguage} onChange={(e) => handleLanguageChange(e.target.value)} className={selectClass}>
+            <option value="">All languages</option>
+            {languages.map(code => (
+              <option key={code} value={code}>{getLanguageName(code)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2 mb-2">
+            <AudioLines size={16} /> Voice
+          </label>
+          <select
+            value={settings.voiceURI || ''}
+            onChange={(e) => onSave({ ...settings, voiceURI: e.target.value || null })}
+            className={selectClass}
+          >
+            <option value="">Default Voice</option>
+            {shownVoices.map(voice => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>
+                {voice.name} ({voice.lang})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2 mb-2">
+            <Gauge size={16} /> Rate
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min="0.5"
+              max="2"
+              step="0.1"
+              value={settings.ttsRate}
+              onChange={(e) => onSave({ ...settings, ttsRate: parseFloat(e.target.value) })}
+              className="flex-1 h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+            <span className="text-xs text-slate-500 dark:text-slate-400 w-10 text-right">{settings.ttsRate.toFixed(1)}x</span>
+          </div>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-slate-700 dark:text-slate-300 block mb-2">Pitch</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min="0"
+              max="2"
+              step="0.1"
+              value={settings.ttsPitch}
+              onChange={(e) => onSave({ ...settings, ttsPitch: parseFloat(e.target.value) })}
+              className="flex-1 h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+            <span className="text-xs text-slate-500 dark:text-slate-400 w-10 text-right">{settings.ttsPitch.toFixed(1)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-700 dark:text-slate-300 block">Announcement</label>
+        {renderTemplate('ttsTemplate', 'When due', SAMPLE)}
+        {renderTemplate('ttsReminderTemplate', 'Advance reminder', SAMPLE_REMINDER)}
+        <p className="text-xs text-slate-400">
+          Placeholders: {ANNOUNCEMENT_PLACEHOLDERS.map(name => `{${name}}`).join(' ')}. Leave empty for the default in the voice's language.
+        </p>
+      </div>
+    </div>
+  );
+};
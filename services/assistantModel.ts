@@ -0,0 +1,15 @@
+// Subset of the OpenAPI schema Gemini accepts for structured output
+export interface JsonSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'INTEGER' | 'NUMBER' | 'BOOLEAN';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+// A language model that answers with JSON matching a schema. AssistantService only talks
+// to this interface, so another model (or a local fake) can be swapped in.
+export interface AssistantModel {
+  generateJson<T>(instructions: string, input: string, schema: JsonSchema): Promise<T>;
+}
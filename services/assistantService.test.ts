@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { AssistantModel, JsonSchema } from './assistantModel';
+import { AssistantService, MAX_DRAFTS } from './assistantService';
+
+// Answers every request with a canned value and records what it was asked
+class FakeAssistantModel implements AssistantModel {
+  public calls: { instructions: string; input: string; schema: JsonSchema }[] = [];
+
+  constructor(private answer: unknown) {}
+
+  public async generateJson<T>(instructions: string, input: string, schema: JsonSchema): Promise<T> {
+    this.calls.push({ instructions, input, schema });
+    return this.answer as T;
+  }
+}
+
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+describe('AssistantService', () => {
+  it('is unavailable and refuses requests without a model', async () => {
+    const service = new AssistantService(null);
+    expect(service.isAvailable()).toBe(false);
+    await expect(service.breakDownTask('Plan trip', NOW)).rejects.toThrow();
+  });
+
+  it('passes the input and the current date to the model', async () => {
+    const model = new FakeAssistantModel({ tasks: [] });
+    await new AssistantService(model).extractTasks('Email from Ann', NOW);
+    expect(model.calls).toHaveLength(1);
+    expect(model.calls[0].input).toBe('Email from Ann');
+    expect(model.calls[0].instructions).toContain('2026-10-19');
+  });
+
+  it('keeps well-formed fields and drops bad dates and times', async () => {
+    const model = new FakeAssistantModel({
+      tasks: [
+        { title: '  Book flights ', date: '2026-10-25', time: '9:05', priority: 'high' },
+        { title: 'Pack', date: 'next friday', time: '25:00', priority: 'urgent' },
+        { title: 'Renew passport', date: '2026-10-22', time: '14:60' },
+      ],
+    });
+    const drafts = await new AssistantService(model).breakDownTask('Plan trip', NOW);
+    expect(drafts).toEqual([
+      { title: 'Book flights', date: '2026-10-25', time: '09:05', priority: 'high' },
+      { title: 'Pack' },
+      { title: 'Renew passport', date: '2026-10-22' },
+    ]);
+  });
+
+  it('skips drafts without a title and answers that are not lists', async () => {
+    const drafts = await new AssistantService(new FakeAssistantModel({ tasks: [{ title: '' }, { date: '2026-10-20' }, null, { title: 'Call Ann' }] })).extractTasks('notes', NOW);
+    expect(drafts).toEqual([{ title: 'Call Ann' }]);
+    expect(await new AssistantService(new FakeAssistantModel({ tasks: 'none' })).extractTasks('notes', NOW)).toEqual([]);
+  });
+
+  it(`returns at most ${MAX_DRAFTS} drafts`, async () => {
+    const tasks = Array.from({ length: MAX_DRAFTS + 5 }, (_, i) => ({ title: `Step ${i + 1}` }));
+    const drafts = await new AssistantService(new FakeAssistantModel({ tasks })).breakDownTask('Big project', NOW);
+    expect(drafts).toHaveLength(MAX_DRAFTS);
+    expect(drafts[0].title).toBe('Step 1');
+  });
+
+  it('suggests a schedule, falling back to the title when the answer is unusable', async () => {
+    const suggested = await new AssistantService(new FakeAssistantModel({ title: 'Dentist', date: '2026-10-21', time: '15:00', priority: 'medium' })).suggestSchedule('Dentist next week', NOW);
+    expect(suggested).toEqual({ title: 'Dentist', date: '2026-10-21', time: '15:00', priority: 'medium' });
+
+    expect(await new AssistantService(new FakeAssistantModel({ title: ' ' })).suggestSchedule('Dentist', NOW)).toEqual({ title: 'Dentist' });
+    expect(await new AssistantService(new FakeAssistantModel(null)).suggestSchedule('Dentist', NOW)).toEqual({ title: 'Dentist' });
+  });
+});
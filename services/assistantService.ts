@@ -0,0 +1,115 @@
+import { Priority } from '../types';
+import { formatDate, formatTime, WEEKDAY_SHORT } from '../utils/date';
+import { AssistantModel, JsonSchema } from './assistantModel';
+import { createGeminiModel } from './geminiAssistantModel';
+
+// A suggested task, reviewed by the user before it is added
+export interface TaskDraft {
+  title: string;
+  date?: string; // "YYYY-MM-DD"
+  time?: string; // "HH:mm"
+  priority?: Priority;
+}
+
+export const MAX_DRAFTS = 20;
+
+const DRAFT_SCHEMA: JsonSchema = {
+  type: 'OBJECT',
+  properties: {
+    title: { type: 'STRING', description: 'Short, actionable task title' },
+    date: { type: 'STRING', description: 'Due date as YYYY-MM-DD, or empty when unknown' },
+    time: { type: 'STRING', description: 'Due time as 24-hour HH:mm, or empty when unknown' },
+    priority: { type: 'STRING', enum: ['high', 'medium', 'low'] },
+  },
+  required: ['title'],
+};
+
+const DRAFT_LIST_SCHEMA: JsonSchema = {
+  type: 'OBJECT',
+  properties: { tasks: { type: 'ARRAY', items: DRAFT_SCHEMA } },
+  required: ['tasks'],
+};
+
+// The model needs the current date to resolve "tomorrow", "next Friday" etc.
+const describeNow = (now: Date) =>
+  `Today is ${WEEKDAY_SHORT[now.getDay()]} ${formatDate(now)} and the time is ${formatTime(now)}.`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPriority = (value: unknown): value is Priority => value === 'high' || value === 'medium' || value === 'low';
+
+// Keep only well-formed fields from the model's answer
+const toDraft = (value: unknown): TaskDraft | null => {
+  if (!isRecord(value) || typeof value.title !== 'string' || !value.title.trim()) return null;
+  const draft: TaskDraft = { title: value.title.trim() };
+  if (typeof value.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.date)) draft.date = value.date;
+  const time = typeof value.time === 'string' ? value.time.match(/^(\d{1,2}):(\d{2})$/) : null;
+  if (time && Number(time[1]) < 24 && Number(time[2]) < 60) draft.time = `${time[1].padStart(2, '0')}:${time[2]}`;
+  if (isPriority(value.priority)) draft.priority = value.priority;
+  return draft;
+};
+
+const toDrafts = (value: unknown): TaskDraft[] =>
+  (isRecord(value) && Array.isArray(value.tasks) ? value.tasks : [])
+    .map(toDraft)
+    .filter((draft): draft is TaskDraft => draft !== null)
+    .slice(0, MAX_DRAFTS);
+
+// Optional helpers backed by a language model. Without a model (no API key) the assistant
+// reports itself unavailable and the UI hides it.
+export class AssistantService {
+  constructor(private model: AssistantModel | null) {}
+
+  public isAvailable() {
+    return this.model !== null;
+  }
+
+  // Split a task into smaller steps
+  public async breakDownTask(title: string, now = new Date()): Promise<TaskDraft[]> {
+    const answer = await this.requireModel().generateJson(
+      `You help plan personal tasks. Split the user's task into 2 to 8 concrete steps, in the order they should be done. ` +
+      `Only give a date or time when the task mentions one. ${describeNow(now)}`,
+      title,
+      DRAFT_LIST_SCHEMA,
+    );
+    return toDrafts(answer);
+  }
+
+  // Suggest when a task is due and how important it is
+  public async suggestSchedule(title: string, now = new Date()): Promise<TaskDraft> {
+    const answer = await this.requireModel().generateJson(
+      `You help schedule personal tasks. Suggest a realistic due date, due time and priority for the user's task, ` +
+      `keeping its title but removing any date or time words from it. ${describeNow(now)}`,
+      title,
+      DRAFT_SCHEMA,
+    );
+    return toDraft(answer) || { title };
+  }
+
+  // Turn free text (notes, an email) into separate tasks
+  public async extractTasks(text: string, now = new Date()): Promise<TaskDraft[]> {
+    const answer = await this.requireModel().generateJson(
+      `You extract action items. List every task the user has to do from the text, with due dates and times ` +
+      `when the text states them. Ignore information that is not a task. ${describeNow(now)}`,
+      text,
+      DRAFT_LIST_SCHEMA,
+    );
+    return toDrafts(answer);
+  }
+
+  private requireModel() {
+    if (!this.model) throw new Error("The assistant needs a GEMINI_API_KEY.");
+    return this.model;
+  }
+}
+
+// Vite replaces process.env.GEMINI_API_KEY at build time; it is missing when no key was set
+const readApiKey = () => {
+  try {
+    return process.env.GEMINI_API_KEY || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const assistantService = new AssistantService(createGeminiModel(readApiKey()));
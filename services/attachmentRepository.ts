@@ -0,0 +1,42 @@
+import { Attachment } from '../types';
+import { openDatabase, requestToPromise, transactionDone, ATTACHMENTS_STORE } from './database';
+
+// Attachments are meant for small files (tickets, agendas); larger ones are refused
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+interface StoredAttachment extends Attachment {
+  blob: Blob;
+}
+
+// File contents of task attachments. Tasks only carry the metadata, so the contents
+// are available on the device the file was attached on.
+class AttachmentRepository {
+  public async get(id: string): Promise<Blob | undefined> {
+    const db = await openDatabase();
+    const stored = await requestToPromise<StoredAttachment | undefined>(db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).get(id));
+    return stored?.blob;
+  }
+
+  public async add(file: File): Promise<Attachment> {
+    const attachment: Attachment = { id: crypto.randomUUID(), name: file.name, type: file.type, size: file.size };
+    const db = await openDatabase();
+    const tx = db.transaction(ATTACHMENTS_STORE, 'readwrite');
+    tx.objectStore(ATTACHMENTS_STORE).put({ ...attachment, blob: file });
+    await transactionDone(tx);
+    return attachment;
+  }
+
+  // Delete the contents no task refers to anymore, e.g. after a task was deleted or an edit discarded
+  public async prune(referencedIds: Set<string>) {
+    const db = await openDatabase();
+    const ids = await requestToPromise<IDBValidKey[]>(db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).getAllKeys());
+    const orphans = ids.filter(id => !referencedIds.has(String(id)));
+    if (orphans.length === 0) return;
+
+    const tx = db.transaction(ATTACHMENTS_STORE, 'readwrite');
+    orphans.forEach(id => tx.objectStore(ATTACHMENTS_STORE).delete(id));
+    await transactionDone(tx);
+  }
+}
+
+export const attachmentRepository = new AttachmentRepository();
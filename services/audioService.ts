@@ -1,11 +1,16 @@
-import { AppSettings } from '../types';
+import { AlarmSound, AppSettings, ToneId } from '../types';
+import { soundRepository } from './soundRepository';
+import { TONES, ToneDefinition, getEscalation, getEscalationSeconds, isToneId } from '../utils/tones';
+import { Announcement, composeAnnouncement } from '../utils/announcement';
+import { getQuietAction } from '../utils/quietHours';
 
 class AudioService {
   private audioContext: AudioContext | null = null;
-  private customAudioBuffer: AudioBuffer | null = null;
+  // Decoded library sounds by id, so tasks with different sounds do not decode again on every alarm
+  private buffers = new Map<string, AudioBuffer>();
   
   // Track active playback to allow stopping
-  private currentSource: AudioBufferSourceNode | OscillatorNode | null = null;
+  private sources = new Set<AudioScheduledSourceNode>();
   private stopTimeout: number | null = null;
   private loopInterval: number | null = null;
   
@@ -19,27 +24,47 @@ class AudioService {
     return this.audioContext;
   }
 
-  // Play a single bell sound. Returns duration in ms.
-  private playBellSound(volume: number): number {
+  private track(source: AudioScheduledSourceNode) {
+    this.sources.add(source);
+    source.onended = () => this.sources.delete(source);
+  }
+
+  // Play one repeat of a tone, one oscillator per note
+  private playTone(tone: ToneDefinition, volume: number) {
     const ctx = this.getContext();
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
 
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(523.25, ctx.currentTime); // C5
-    osc.frequency.exponentialRampToValueAtTime(261.63, ctx.currentTime + 0.5); // C4
+    tone.notes.forEach(note => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime + note.start;
+      const end = start + note.duration;
+      // Exponential ramps cannot start from or reach zero
+      const peak = Math.max(0.0001, volume * note.gain);
 
-    gain.gain.setValueAtTime(volume, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.5);
+      osc.type = note.wave;
+      osc.frequency.setValueAtTime(note.freq, start);
+      if (note.endFreq) osc.frequency.exponentialRampToValueAtTime(note.endFreq, end);
 
-    osc.connect(gain);
-    gain.connect(ctx.destination);
+      if (note.attack) {
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(peak, start + note.attack);
+      } else {
+        gain.gain.setValueAtTime(peak, start);
+      }
+      if (note.release === 'fade') gain.gain.exponentialRampToValueAtTime(0.0001, end);
 
-    osc.start();
-    osc.stop(ctx.currentTime + 0.6);
-    
-    this.currentSource = osc;
-    return 600; // ms
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start(start);
+      osc.stop(end);
+      this.track(osc);
+    });
+  }
+
+  // A single play of a tone, e.g. when picking one in the settings
+  public previewTone(toneId: ToneId, volume: number) {
+    this.stop();
+    this.playTone(TONES[toneId], volume);
   }
 
   public playSuccessSound(volume: number) {
@@ -73,77 +98,98 @@ class AudioService {
     });
   }
 
-  private speakText(text: string, volume: number, voiceURI: string | null, onEnd?: () => void) {
-    if ('speechSynthesis' in window) {
-      // Cancel existing speech
-      window.speechSynthesis.cancel();
-      
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.volume = volume;
-      utterance.rate = 1;
-      
-      // Attempt to set voice if provided
-      if (voiceURI) {
-        const voices = window.speechSynthesis.getVoices();
-        const selectedVoice = voices.find(v => v.voiceURI === voiceURI);
-        if (selectedVoice) {
-            utterance.voice = selectedVoice;
-        }
-      }
+  // Speech needs both the API and at least one installed voice
+  private canSpeak() {
+    return 'speechSynthesis' in window && window.speechSynthesis.getVoices().length > 0;
+  }
 
-      if (onEnd) {
-        utterance.onend = onEnd;
-      }
-      
-      window.speechSynthesis.speak(utterance);
+  // The chosen voice, or else the first one for the chosen language
+  private findVoice(voiceURI: string | null, language: string): SpeechSynthesisVoice | undefined {
+    const voices = window.speechSynthesis.getVoices();
+    return voices.find(v => v.voiceURI === voiceURI)
+      || (language ? voices.find(v => v.lang.toLowerCase().startsWith(language.toLowerCase())) : undefined);
+  }
+
+  private speakText(text: string, options: { volume: number; rate: number; pitch: number; voice?: SpeechSynthesisVoice; lang: string }, onEnd?: () => void, onError?: () => void) {
+    // Cancel existing speech
+    window.speechSynthesis.cancel();
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.volume = options.volume;
+    utterance.rate = options.rate;
+    utterance.pitch = options.pitch;
+    utterance.lang = options.lang;
+    if (options.voice) utterance.voice = options.voice;
+
+    if (onEnd) {
+      utterance.onend = onEnd;
     }
+    utterance.onerror = (e) => {
+      // Cancelling for the next alarm or stop() is not a failure
+      if (e.error === 'interrupted' || e.error === 'canceled') return;
+      console.error("Speech failed:", e.error);
+      onError?.();
+    };
+
+    window.speechSynthesis.speak(utterance);
   }
 
-  private async playCustom(base64Data: string, volume: number, loop: boolean) {
+  private async getBuffer(soundId: string): Promise<AudioBuffer> {
+    const cached = this.buffers.get(soundId);
+    if (cached) return cached;
+
+    const sound = await soundRepository.get(soundId);
+    if (!sound) throw new Error(`Sound ${soundId} not found`);
+    const buffer = await this.getContext().decodeAudioData(await sound.blob.arrayBuffer());
+    this.buffers.set(soundId, buffer);
+    return buffer;
+  }
+
+  // `escalateSeconds` ramps the volume up over that time. Recordings only get louder,
+  // since playing them faster would also raise the pitch.
+  private async playCustom(soundId: string, volume: number, loop: boolean, escalateSeconds = 0) {
     try {
       const ctx = this.getContext();
-      
-      if (!this.customAudioBuffer) {
-        const response = await fetch(base64Data);
-        const arrayBuffer = await response.arrayBuffer();
-        this.customAudioBuffer = await ctx.decodeAudioData(arrayBuffer);
-      }
+      const source = ctx.createBufferSource();
+      const gain = ctx.createGain();
 
-      if (this.customAudioBuffer) {
-        const source = ctx.createBufferSource();
-        const gain = ctx.createGain();
-        
-        source.buffer = this.customAudioBuffer;
-        source.loop = loop;
+      source.buffer = await this.getBuffer(soundId);
+      source.loop = loop;
+      if (escalateSeconds > 0) {
+        gain.gain.setValueAtTime(volume * getEscalation(0, escalateSeconds).volume, ctx.currentTime);
+        gain.gain.linearRampToValueAtTime(volume, ctx.currentTime + escalateSeconds);
+      } else {
         gain.gain.value = volume;
-        
-        source.connect(gain);
-        gain.connect(ctx.destination);
-        source.start();
-        
-        this.currentSource = source;
       }
+
+      source.connect(gain);
+      gain.connect(ctx.destination);
+      source.start();
+
+      this.track(source);
     } catch (e) {
+      // Library sounds stay on the device that uploaded them, so synced tasks may name one that is missing here
       console.error("Failed to play custom audio", e);
-      // Fallback
-      this.playBellSound(volume);
+      this.playTone(TONES.bell, volume);
     }
   }
 
-  public clearCustomCache() {
-    this.customAudioBuffer = null;
+  // Drops a deleted or replaced sound from the cache, or all of them
+  public evictSound(soundId?: string) {
+    if (soundId) this.buffers.delete(soundId);
+    else this.buffers.clear();
   }
 
   public stop() {
     // 1. Stop Web Audio API sources
-    if (this.currentSource) {
+    this.sources.forEach(source => {
       try {
-        this.currentSource.stop();
+        source.stop();
       } catch (e) {
         // Ignore error if already stopped
       }
-      this.currentSource = null;
-    }
+    });
+    this.sources.clear();
 
     // 2. Stop TTS
     if ('speechSynthesis' in window) {
@@ -167,7 +213,14 @@ class AudioService {
     }
   }
 
-  public async playNotification(settings: AppSettings, taskTitle: string, onEnd?: () => void) {
+  // Several announcements (alarms due at the same time) are spoken as one summary
+  public async playNotification(settings: AppSettings, sound: AlarmSound, announcements: Announcement[], onEnd?: () => void, isPreview = false) {
+    // Quiet hours and Do Not Disturb keep alarms silent unless the policy lets one of them ring
+    if (!isPreview && !announcements.some(a => getQuietAction(settings, a.priority, Date.now()) === 'ring')) {
+      onEnd?.();
+      return;
+    }
+
     // Stop any existing sound first
     this.stop();
     this.onPlaybackEnd = onEnd || null;
@@ -177,7 +230,8 @@ class AudioService {
       await this.audioContext.resume();
     }
 
-    const { soundMode, volume, audioDuration, audioLoop, customSoundData, voiceURI } = settings;
+    const { volume, audioDuration, audioLoop, audioEscalate, customSoundId, voiceURI } = settings;
+    const soundId = sound.soundId || customSoundId;
 
     // Set Max Duration Timeout
     if (audioDuration > 0) {
@@ -186,40 +240,54 @@ class AudioService {
       }, audioDuration * 1000);
     }
 
-    if (soundMode === 'tts') {
-      const text = `Task due: ${taskTitle}`;
+    // Escalation runs over the whole duration window
+    const startedAt = Date.now();
+    const escalateSeconds = audioEscalate ? getEscalationSeconds(audioDuration) : 0;
+    const level = () => audioEscalate ? getEscalation(Date.now() - startedAt, escalateSeconds * 1000) : { volume: 1, tempo: 1 };
+
+    // Synthesized tones repeat at their own interval, sooner and louder when escalating
+    const playTones = (tone: ToneDefinition) => {
+      const repeat = () => {
+        const { volume: factor, tempo } = level();
+        this.playTone(tone, volume * factor);
+        if (audioLoop) this.loopInterval = window.setTimeout(repeat, tone.interval / tempo);
+      };
+      repeat();
+    };
+
+    if (sound.mode === 'tts' && this.canSpeak()) {
+      const voice = this.findVoice(voiceURI, settings.ttsLanguage);
+      const lang = voice?.lang || settings.ttsLanguage || navigator.language;
+      const text = composeAnnouncement(announcements, { due: settings.ttsTemplate, reminder: settings.ttsReminderTemplate, phrase: sound.phrase }, lang);
+      const speech = { rate: settings.ttsRate, pitch: settings.ttsPitch, voice, lang };
+      // Falls back to the bell for the rest of the alarm
+      const onError = () => playTones(TONES.bell);
       
       if (audioLoop) {
         const speakLoop = () => {
-          this.speakText(text, volume, voiceURI, () => {
+          const { volume: factor, tempo } = level();
+          // Speech stays intelligible up to 1.5x, so it speeds up half as much as tones
+          this.speakText(text, { ...speech, volume: volume * factor, rate: settings.ttsRate * (1 + (tempo - 1) / 2) }, () => {
              // Calculate a small pause or just run again immediately
-             this.loopInterval = window.setTimeout(speakLoop, 1000);
-          });
+             this.loopInterval = window.setTimeout(speakLoop, 1000 / tempo);
+          }, onError);
         };
         speakLoop();
       } else {
-        this.speakText(text, volume, voiceURI, () => {
+        this.speakText(text, { ...speech, volume }, () => {
            // Natural end
            if (this.onPlaybackEnd) this.onPlaybackEnd();
-        });
+        }, onError);
       }
 
-    } else if (soundMode === 'custom' && customSoundData) {
-      await this.playCustom(customSoundData, volume, audioLoop);
+    } else if (sound.mode === 'custom' && soundId) {
+      await this.playCustom(soundId, volume, audioLoop, escalateSeconds);
       // Custom audio source handles its own looping via bufferSource.loop = true
       // It will be stopped by the stopTimeout
 
     } else {
-      // Bell
-      if (audioLoop) {
-        // Repeat bell every 1 second
-        this.playBellSound(volume);
-        this.loopInterval = window.setInterval(() => {
-          this.playBellSound(volume);
-        }, 1000);
-      } else {
-        this.playBellSound(volume);
-      }
+      // Speech without voices rings the bell
+      playTones(TONES[isToneId(sound.mode) ? sound.mode : 'bell']);
     }
   }
 }
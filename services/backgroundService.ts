@@ -0,0 +1,172 @@
+import { Task } from '../types';
+import { ScheduleEntry } from '../utils/scheduler';
+import { advanceRecurringTask, completeTask } from '../utils/recurrence';
+import { snoozeTask } from '../utils/snooze';
+import { getNotificationActions, getNotificationTitle } from './notificationService';
+
+// Shared with sw.js — keep the name, version and stores in sync with the worker
+const DB_NAME = 'windo-background';
+const DB_VERSION = 1;
+const SCHEDULE_STORE = 'schedule';
+const ACTIONS_STORE = 'actions';
+
+const PERIODIC_SYNC_TAG = 'windo-reminders';
+
+// Recorded by the service worker while no tab is open, applied by the app on its next start
+export type BackgroundAction =
+  | { type: 'notified'; taskId: string; date: string; leadMinutes: number; at: number }
+  | { type: 'complete'; taskId: string; at: number }
+  | { type: 'snooze'; taskId: string; until: number; at: number };
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+class BackgroundService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public isSupported() {
+    return 'indexedDB' in window && 'serviceWorker' in navigator;
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SCHEDULE_STORE)) db.createObjectStore(SCHEDULE_STORE, { keyPath: 'key' });
+          if (!db.objectStoreNames.contains(ACTIONS_STORE)) db.createObjectStore(ACTIONS_STORE, { autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Replace the schedule the service worker works from while the app is closed
+  public async updateSchedule(entries: ScheduleEntry[]) {
+    if (!this.isSupported()) return;
+    try {
+      const db = await this.getDb();
+      const tx = db.transaction(SCHEDULE_STORE, 'readwrite');
+      const store = tx.objectStore(SCHEDULE_STORE);
+      store.clear();
+      entries.forEach(entry => store.put({ ...entry, notificationTitle: getNotificationTitle(entry.title, entry.leadMinutes) }));
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+      await this.scheduleTriggers(entries);
+    } catch (e) {
+      console.error("Failed to update background schedule", e);
+    }
+  }
+
+  // Read and clear everything the service worker recorded
+  public async takePendingActions(): Promise<BackgroundAction[]> {
+    if (!this.isSupported()) return [];
+    try {
+      const db = await this.getDb();
+      const tx = db.transaction(ACTIONS_STORE, 'readwrite');
+      const store = tx.objectStore(ACTIONS_STORE);
+      const actions = await requestToPromise(store.getAll() as IDBRequest<BackgroundAction[]>);
+      store.clear();
+      return [...actions, ...await this.getTriggeredActions()].sort((a, b) => a.at - b.at);
+    } catch (e) {
+      console.error("Failed to read background actions", e);
+      return [];
+    }
+  }
+
+  public applyActions(tasks: Task[], actions: BackgroundAction[]): Task[] {
+    return actions.reduce((current, action) => current.map(task => {
+      if (task.id !== action.taskId || task.completed) return task;
+
+      switch (action.type) {
+        case 'complete':
+          return completeTask({ ...task, snoozedUntil: undefined });
+        case 'snooze':
+          return snoozeTask(task, action.until);
+        case 'notified': {
+          // Recurring tasks may have moved on while the app was closed
+          let updated = task;
+          while (updated.recurrence && updated.date < action.date) {
+            const next = advanceRecurringTask(updated);
+            if (!next) break;
+            updated = next;
+          }
+          if (updated.date !== action.date) return task;
+          if (action.leadMinutes > 0) {
+            return {
+              ...updated,
+              reminders: updated.reminders?.map(r => r.offsetMinutes === action.leadMinutes ? { ...r, fired: true } : r),
+            };
+          }
+          return { ...updated, notified: true, snoozedUntil: undefined };
+        }
+        default:
+          return task;
+      }
+    }), tasks);
+  }
+
+  // Let the worker wake up periodically to check the schedule (installed PWAs in Chromium)
+  public async registerPeriodicSync() {
+    if (!this.isSupported()) return;
+    try {
+      const registration: any = await navigator.serviceWorker.ready;
+      if (!registration.periodicSync) return;
+      const status = await (navigator.permissions as any).query({ name: 'periodic-background-sync' });
+      if (status.state === 'granted') {
+        await registration.periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 });
+      }
+    } catch (e) {
+      console.log("Periodic sync unavailable", e);
+    }
+  }
+
+  private supportsTriggers() {
+    return 'Notification' in window && 'showTrigger' in Notification.prototype && !!(window as any).TimestampTrigger;
+  }
+
+  // Notification Triggers fire without the worker, so the app learns about them from the notifications still shown
+  private async getTriggeredActions(): Promise<BackgroundAction[]> {
+    if (!this.supportsTriggers()) return [];
+    const registration = await navigator.serviceWorker.getRegistration();
+    const shown = await registration?.getNotifications() || [];
+    const now = Date.now();
+    return shown
+      .filter(n => n.data?.scheduled && n.data.at <= now)
+      .map(n => ({ type: 'notified', taskId: n.data.taskId, date: n.data.date, leadMinutes: n.data.leadMinutes, at: n.data.at }));
+  }
+
+  // Notification Triggers show notifications at an exact time without waking the worker.
+  // They share the tag of the tab's notification, so an open tab's alert replaces the triggered one.
+  private async scheduleTriggers(entries: ScheduleEntry[]) {
+    if (!this.supportsTriggers() || Notification.permission !== 'granted') return;
+    const TimestampTrigger = (window as any).TimestampTrigger;
+
+    const registration = await navigator.serviceWorker.ready;
+    const now = Date.now();
+    const scheduled = await registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+    // Only the pending ones; shown alerts stay until the user handles them
+    scheduled.filter(n => n.data?.scheduled && n.data.at > now).forEach(n => n.close());
+
+    // One trigger per tag, since a later alert of the same task would replace the earlier one.
+    // The later ones get their trigger the next time the app updates the schedule; until then
+    // the worker's periodic check covers them.
+    const next = entries.filter((entry, i) => entries.findIndex(e => e.taskId === entry.taskId) === i);
+    await Promise.all(next.map(entry => registration.showNotification(getNotificationTitle(entry.title, entry.leadMinutes), {
+      tag: entry.taskId,
+      silent: !!entry.silent,
+      data: { taskId: entry.taskId, url: entry.url, scheduled: true, at: entry.at, date: entry.date, leadMinutes: entry.leadMinutes },
+      actions: getNotificationActions(entry.url),
+      showTrigger: new TimestampTrigger(entry.at),
+    } as NotificationOptions)));
+  }
+}
+
+export const backgroundService = new BackgroundService();
@@ -0,0 +1,151 @@
+// IndexedDB schema for local data. Each migration upgrades the schema by one version;
+// the database version is simply the number of migrations.
+
+export const DB_NAME = 'windo';
+
+export const TASKS_STORE = 'tasks';
+export const SOUNDS_STORE = 'sounds';
+export const TOMBSTONES_STORE = 'tombstones';
+export const KEYS_STORE = 'keys';
+export const LISTS_STORE = 'lists';
+export const ATTACHMENTS_STORE = 'attachments';
+
+// localStorage keys from before the IndexedDB move
+export const LEGACY_TASKS_KEY = 'windo-tasks';
+export const LEGACY_SOUND_KEY = 'windo-legacy-sound'; // Base64 audio moved out of the settings, see settingsStorage
+export const LEGACY_SOUND_ID = 'legacy-custom-sound';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Decode a "data:audio/mpeg;base64,..." URL synchronously (upgrade transactions cannot await)
+const dataUrlToBlob = (dataUrl: string) => {
+  const [header, base64] = dataUrl.split(',');
+  const mime = header.match(/data:(.*?);/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+const MIGRATIONS: Migration[] = [
+  // v1: tasks and sounds stores, imported from localStorage
+  (db, tx) => {
+    const tasks = db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+    const sounds = db.createObjectStore(SOUNDS_STORE, { keyPath: 'id' });
+
+    try {
+      const savedTasks = JSON.parse(localStorage.getItem(LEGACY_TASKS_KEY) || '[]');
+      if (Array.isArray(savedTasks)) {
+        savedTasks.forEach((task, position) => tasks.put({ ...task, position }));
+      }
+
+      const legacySound = JSON.parse(localStorage.getItem(LEGACY_SOUND_KEY) || 'null');
+      if (legacySound?.data) {
+        sounds.put({
+          id: LEGACY_SOUND_ID,
+          name: legacySound.name || 'Custom sound',
+          blob: dataUrlToBlob(legacySound.data),
+          createdAt: Date.now(),
+        });
+      }
+    } catch (e) {
+      console.error("Failed to import legacy data", e);
+    }
+
+    // Only drop the old copy once the import has been committed
+    tx.addEventListener('complete', () => {
+      localStorage.removeItem(LEGACY_TASKS_KEY);
+      localStorage.removeItem(LEGACY_SOUND_KEY);
+    });
+  },
+  // v2: deleted task ids, kept for sync merges
+  (db) => {
+    db.createObjectStore(TOMBSTONES_STORE, { keyPath: 'id' });
+  },
+  // v3: sync encryption key (a non-extractable CryptoKey)
+  (db) => {
+    db.createObjectStore(KEYS_STORE, { keyPath: 'id' });
+  },
+  // v4: task lists
+  (db) => {
+    db.createObjectStore(LISTS_STORE, { keyPath: 'id' });
+  },
+  // v5: files attached to tasks (only their metadata is synced)
+  (db) => {
+    db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](db, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Write only the records that differ between two snapshots of an ordered collection, storing each
+// with its position, plus any new tombstones, in one transaction
+export const saveRecordChanges = async <T extends { id: string }>(
+  storeName: string, previous: T[], next: T[], tombstones: { id: string }[]
+) => {
+  const previousIndex = new Map(previous.map((record, position) => [record.id, { record, position }]));
+  const nextIds = new Set(next.map(r => r.id));
+
+  const changed = next
+    .map((record, position) => ({ record, position }))
+    .filter(({ record, position }) => {
+      const before = previousIndex.get(record.id);
+      // State updates always produce new objects for modified records
+      return !before || before.record !== record || before.position !== position;
+    });
+  const removed = previous.filter(r => !nextIds.has(r.id));
+
+  if (changed.length === 0 && removed.length === 0 && tombstones.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([storeName, TOMBSTONES_STORE], 'readwrite');
+  const store = tx.objectStore(storeName);
+  changed.forEach(({ record, position }) => store.put({ ...record, position }));
+  removed.forEach(record => store.delete(record.id));
+  const tombstoneStore = tx.objectStore(TOMBSTONES_STORE);
+  tombstones.forEach(tombstone => tombstoneStore.put(tombstone));
+  await transactionDone(tx);
+};
+
+// All records of an ordered collection, sorted by their stored position
+export const getOrderedRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<(T & { position: number })[]>(db.transaction(storeName).objectStore(storeName).getAll());
+  return records
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, ...record }) => record as T);
+};
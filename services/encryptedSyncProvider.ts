@@ -0,0 +1,204 @@
+import { SyncUser, Task, Tombstone } from '../types';
+import { SyncRecord, SyncSnapshot, stableStringify } from '../utils/merge';
+import { RemoteUpdate, SyncProvider } from './syncProvider';
+import {
+  KEY_RECORD_ID, EncryptedPayload, KeyRecord, SyncKey, EncryptionLockedError,
+  encryptJson, decryptJson, createSyncKey, unlockSyncKey, loadSyncKey, saveSyncKey,
+} from './syncEncryption';
+
+// Stored in place of a task or list; only the id stays readable so snapshots can still be merged
+interface EncryptedRecord {
+  id: string;
+  encrypted: EncryptedPayload;
+}
+
+interface CachedRecord {
+  keyId: string;
+  encrypted: EncryptedRecord;
+  decrypted: SyncRecord;
+  plain: string; // stableStringify(decrypted)
+}
+
+export type EncryptionState = 'off' | 'on' | 'locked';
+
+const isEncryptedRecord = (record: object): record is EncryptedRecord => 'encrypted' in record;
+const isKeyRecord = (item: { id: string }) => item.id === KEY_RECORD_ID;
+
+// Wraps any provider so tasks and lists are encrypted before they leave the device. Merging still
+// happens on plaintext in SyncService; ids, tombstones and order stay readable.
+export class EncryptedSyncProvider implements SyncProvider {
+  private syncKey: SyncKey | null = null;
+  private keyLoaded: Promise<void>;
+  private remoteRecord: KeyRecord | null = null;
+  private locked = false;
+  // Ciphertext per record id, reused while a record is unchanged so it is not rewritten on every push
+  private cache = new Map<string, CachedRecord>();
+
+  constructor(private inner: SyncProvider) {
+    this.keyLoaded = loadSyncKey()
+      .then(syncKey => { this.syncKey = syncKey; })
+      .catch(e => console.error("Failed to load sync key:", e));
+  }
+
+  public getEncryptionState(): EncryptionState {
+    return this.locked ? 'locked' : this.syncKey ? 'on' : 'off';
+  }
+
+  public login() {
+    return this.inner.login();
+  }
+
+  public logout() {
+    return this.inner.logout();
+  }
+
+  public onAuthChange(callback: (user: SyncUser | null) => void) {
+    return this.inner.onAuthChange(callback);
+  }
+
+  public async pull(user: SyncUser): Promise<SyncSnapshot> {
+    return (await this.decode(await this.inner.pull(user))).snapshot;
+  }
+
+  public subscribe(user: SyncUser, onUpdate: (update: RemoteUpdate) => void, onError: (error: unknown) => void) {
+    let cancelled = false;
+    let queue = Promise.resolve();
+
+    const stop = this.inner.subscribe(user, (update) => {
+      // Decrypt one update at a time so they are delivered in order
+      queue = queue.then(async () => {
+        if (cancelled) return;
+        try {
+          const { snapshot, needsUpload } = await this.decode(update.snapshot);
+          if (cancelled) return;
+          onUpdate({ ...update, snapshot });
+          // Encryption is on but the cloud still holds plaintext (e.g. a new account): replace it
+          if (needsUpload) await this.inner.push(user, await this.encode(snapshot, this.syncKey));
+        } catch (e) {
+          if (!cancelled) onError(e);
+        }
+      });
+    }, onError);
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }
+
+  public async push(user: SyncUser, snapshot: SyncSnapshot) {
+    await this.keyLoaded;
+    if (this.locked) throw new EncryptionLockedError("Enter the sync passphrase in Settings to sync.");
+    await this.inner.push(user, await this.encode(snapshot, this.syncKey));
+  }
+
+  // Enter the passphrase another device set up; throws WrongPassphraseError if it does not match
+  public async unlock(passphrase: string) {
+    if (!this.remoteRecord) throw new Error("The cloud data is not encrypted.");
+    await this.activate(await unlockSyncKey(passphrase, this.remoteRecord));
+  }
+
+  // Enable, change or (with null) disable encryption, rewriting the cloud data with the new key.
+  // The old key stays active until the rewrite has been stored.
+  public async setPassphrase(user: SyncUser, passphrase: string | null) {
+    const plain = await this.pull(user);
+    const next = passphrase ? await createSyncKey(passphrase) : null;
+    await this.inner.push(user, await this.encode(plain, next, true));
+    await this.activate(next);
+  }
+
+  private async activate(syncKey: SyncKey | null) {
+    await saveSyncKey(syncKey);
+    this.syncKey = syncKey;
+    this.locked = false;
+    this.cache.clear();
+  }
+
+  private async decode(snapshot: SyncSnapshot): Promise<{ snapshot: SyncSnapshot; needsUpload: boolean }> {
+    await this.keyLoaded;
+    const record = snapshot.tasks.find(isKeyRecord) as unknown as KeyRecord | undefined;
+    const keyTombstone = snapshot.tombstones.find(isKeyRecord);
+    this.remoteRecord = record || null;
+
+    if (record && record.keyId !== this.syncKey?.record.keyId) {
+      this.locked = true;
+      throw new EncryptionLockedError(this.syncKey
+        ? "The sync passphrase was changed on another device. Enter the new passphrase in Settings."
+        : "Your cloud tasks are encrypted. Enter the sync passphrase in Settings.");
+    }
+    this.locked = false;
+
+    // Encryption was turned off on another device after this key was created
+    if (!record && this.syncKey && keyTombstone && keyTombstone.deletedAt > this.syncKey.record.createdAt) {
+      await this.activate(null);
+    }
+
+    const syncKey = this.syncKey;
+    let needsUpload = syncKey !== null && !record;
+    const decryptAll = async <T extends SyncRecord>(records: T[]): Promise<T[]> => {
+      const decrypted: T[] = [];
+      for (const item of records) {
+        if (isKeyRecord(item)) continue;
+        if (!isEncryptedRecord(item)) {
+          if (syncKey) needsUpload = true;
+          decrypted.push(item);
+          continue;
+        }
+        if (!syncKey) {
+          console.error("Skipping encrypted record without a key", item.id);
+          continue;
+        }
+        const result = await this.decryptRecord(item, syncKey);
+        if (result) decrypted.push(result as T);
+      }
+      return decrypted;
+    };
+
+    const tasks = await decryptAll(snapshot.tasks);
+    const lists = await decryptAll(snapshot.lists);
+    return { snapshot: { tasks, lists, tombstones: snapshot.tombstones.filter(t => !isKeyRecord(t)) }, needsUpload };
+  }
+
+  private async decryptRecord(record: EncryptedRecord, syncKey: SyncKey): Promise<SyncRecord | null> {
+    const cached = this.cache.get(record.id);
+    if (cached && cached.keyId === syncKey.record.keyId && stableStringify(cached.encrypted) === stableStringify(record)) {
+      return cached.decrypted;
+    }
+    try {
+      const data = await decryptJson<Omit<SyncRecord, 'id'>>(syncKey.key, record.encrypted, record.id);
+      const decrypted = { ...data, id: record.id };
+      this.cache.set(record.id, { keyId: syncKey.record.keyId, encrypted: record, decrypted, plain: stableStringify(decrypted) });
+      return decrypted;
+    } catch (e) {
+      console.error("Failed to decrypt record", record.id, e);
+      return null;
+    }
+  }
+
+  private async encode(snapshot: SyncSnapshot, syncKey: SyncKey | null, disabling = false): Promise<SyncSnapshot> {
+    if (!syncKey) {
+      // Other devices drop their key when they see this tombstone
+      const tombstones: Tombstone[] = disabling
+        ? [...snapshot.tombstones, { id: KEY_RECORD_ID, deletedAt: Date.now() }]
+        : snapshot.tombstones;
+      return { tasks: snapshot.tasks, lists: snapshot.lists, tombstones };
+    }
+
+    const tasks = await Promise.all(snapshot.tasks.map(task => this.encryptRecord(task, syncKey)));
+    const lists = await Promise.all(snapshot.lists.map(list => this.encryptRecord(list, syncKey)));
+    return { tasks: [syncKey.record as unknown as Task, ...tasks], lists, tombstones: snapshot.tombstones };
+  }
+
+  private async encryptRecord<T extends SyncRecord>(record: T, syncKey: SyncKey): Promise<T> {
+    const plain = stableStringify(record);
+    const cached = this.cache.get(record.id);
+    if (cached && cached.keyId === syncKey.record.keyId && cached.plain === plain) {
+      return cached.encrypted as unknown as T;
+    }
+
+    const { id, ...data } = record;
+    const encrypted: EncryptedRecord = { id, encrypted: await encryptJson(syncKey.key, data, id) };
+    this.cache.set(id, { keyId: syncKey.record.keyId, encrypted, decrypted: record, plain });
+    return encrypted as unknown as T;
+  }
+}
@@ -0,0 +1,221 @@
+import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
+import { getAuth, signInWithPopup, GoogleAuthProvider, signOut, onAuthStateChanged, Auth } from 'firebase/auth';
+import { initializeFirestore, getFirestore, persistentLocalCache, persistentMultipleTabManager, doc, collection, getDoc, getDocs, writeBatch, deleteField, onSnapshot, Firestore, UpdateData, DocumentData } from 'firebase/firestore';
+import { FirebaseConfig, SyncUser, Task, TaskList, Tombstone } from '../types';
+import { SyncRecord, SyncSnapshot, mergeSnapshots, stableStringify } from '../utils/merge';
+import { RemoteUpdate, SyncProvider } from './syncProvider';
+
+// Each task is one document in users/{uid}/tasks and each list one in users/{uid}/lists;
+// deleted records are replaced by their tombstone
+type RecordDoc = (SyncRecord & { position: number }) | Tombstone;
+
+type CollectionName = 'tasks' | 'lists';
+const COLLECTIONS: CollectionName[] = ['tasks', 'lists'];
+
+type RemoteDocs = Record<CollectionName, Map<string, RecordDoc>>;
+
+interface DocWrite {
+  collection: CollectionName;
+  data: RecordDoc;
+}
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 400;
+
+const isTombstoneDoc = (data: RecordDoc): data is Tombstone => 'deletedAt' in data;
+
+const emptyDocs = (): RemoteDocs => ({ tasks: new Map(), lists: new Map() });
+
+// Live records of one collection in position order, plus its tombstones
+const readCollection = (docs: Iterable<RecordDoc>) => {
+  const records: (SyncRecord & { position: number })[] = [];
+  const tombstones: Tombstone[] = [];
+  for (const data of docs) {
+    if (isTombstoneDoc(data)) {
+      tombstones.push(data.kind ? { id: data.id, deletedAt: data.deletedAt, kind: data.kind } : { id: data.id, deletedAt: data.deletedAt });
+    } else {
+      records.push(data);
+    }
+  }
+  records.sort((a, b) => a.position - b.position || a.id.localeCompare(b.id));
+  return { records: records.map(({ position, ...record }) => record), tombstones };
+};
+
+const toSnapshot = (docs: RemoteDocs): SyncSnapshot => {
+  const tasks = readCollection(docs.tasks.values());
+  const lists = readCollection(docs.lists.values());
+  return {
+    tasks: tasks.records as Task[],
+    lists: lists.records as TaskList[],
+    tombstones: [...tasks.tombstones, ...lists.tombstones],
+  };
+};
+
+// Documents of one collection that differ from the cloud. Positions already in order are
+// kept, so only moved or new records get rewritten.
+const diffCollection = (
+  collection: CollectionName, records: SyncRecord[], tombstones: Tombstone[], remote: Map<string, RecordDoc>
+): DocWrite[] => {
+  const changes: DocWrite[] = [];
+  let lastPosition = -1;
+  records.forEach(record => {
+    const current = remote.get(record.id);
+    const position = current && !isTombstoneDoc(current) && current.position > lastPosition
+      ? current.position
+      : lastPosition + 1;
+    lastPosition = position;
+    const next = { ...record, position };
+    if (!current || stableStringify(current) !== stableStringify(next)) changes.push({ collection, data: next });
+  });
+  tombstones.forEach(tombstone => {
+    const current = remote.get(tombstone.id);
+    if (!current || stableStringify(current) !== stableStringify(tombstone)) changes.push({ collection, data: tombstone });
+  });
+  return changes;
+};
+
+const diffDocs = (merged: SyncSnapshot, remote: RemoteDocs): DocWrite[] => [
+  ...diffCollection('tasks', merged.tasks, merged.tombstones.filter(t => t.kind !== 'list'), remote.tasks),
+  ...diffCollection('lists', merged.lists, merged.tombstones.filter(t => t.kind === 'list'), remote.lists),
+];
+
+// Firebase Auth (Google sign-in) and Firestore
+export class FirebaseSyncProvider implements SyncProvider {
+  private app: FirebaseApp;
+  private auth: Auth;
+  private db: Firestore;
+  // Cloud documents by id, kept current from docChanges()
+  private remoteDocs: RemoteDocs = emptyDocs();
+
+  constructor(config: FirebaseConfig) {
+    // Reuse the app when settings are re-applied; Firestore can only be initialized once per app
+    const appName = `windo-${config.projectId}`;
+    const existing = getApps().find(app => app.name === appName);
+    this.app = existing || initializeApp(config, appName);
+    this.auth = getAuth(this.app);
+    // Optional task fields (e.g. recurrence) may be undefined; Firestore rejects those by default.
+    // The persistent cache keeps queued writes across reloads and serves reads while offline.
+    this.db = existing ? getFirestore(this.app) : initializeFirestore(this.app, {
+      ignoreUndefinedProperties: true,
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
+  }
+
+  public async login() {
+    await signInWithPopup(this.auth, new GoogleAuthProvider());
+  }
+
+  public async logout() {
+    await signOut(this.auth);
+  }
+
+  public onAuthChange(callback: (user: SyncUser | null) => void) {
+    return onAuthStateChanged(this.auth, user => {
+      callback(user ? { id: user.uid, label: user.email || user.displayName || 'Google account' } : null);
+    });
+  }
+
+  public async pull(user: SyncUser): Promise<SyncSnapshot> {
+    const [tasks, lists] = await Promise.all(COLLECTIONS.map(name => getDocs(this.collection(user, name))));
+    this.remoteDocs = {
+      tasks: new Map(tasks.docs.map(d => [d.id, { ...d.data(), id: d.id } as RecordDoc])),
+      lists: new Map(lists.docs.map(d => [d.id, { ...d.data(), id: d.id } as RecordDoc])),
+    };
+    return toSnapshot(this.remoteDocs);
+  }
+
+  public subscribe(user: SyncUser, onUpdate: (update: RemoteUpdate) => void, onError: (error: unknown) => void) {
+    let cancelled = false;
+    let stopListening: (() => void)[] = [];
+    this.remoteDocs = emptyDocs();
+    // Per collection: whether the latest snapshot came from the server, and its unconfirmed writes
+    const state = new Map<CollectionName, { fromServer: boolean; pendingIds: string[] }>();
+
+    this.migrateLegacyTasks(user)
+      .catch(e => console.error("Failed to migrate cloud tasks:", e))
+      .then(() => {
+        if (cancelled) return;
+        stopListening = COLLECTIONS.map(name => onSnapshot(this.collection(user, name), { includeMetadataChanges: true }, (querySnap) => {
+          const docs = this.remoteDocs[name];
+          querySnap.docChanges().forEach(change => {
+            if (change.type === 'removed') {
+              docs.delete(change.doc.id);
+            } else {
+              docs.set(change.doc.id, { ...change.doc.data(), id: change.doc.id } as RecordDoc);
+            }
+          });
+          state.set(name, {
+            fromServer: !querySnap.metadata.fromCache,
+            // Queued writes show up locally before the server confirms them
+            pendingIds: querySnap.docs.filter(d => d.metadata.hasPendingWrites).map(d => d.id),
+          });
+          // A snapshot missing one collection would look like all of its records were removed
+          if (state.size < COLLECTIONS.length) return;
+          onUpdate({
+            snapshot: toSnapshot(this.remoteDocs),
+            fromServer: [...state.values()].every(s => s.fromServer),
+            pendingIds: [...state.values()].flatMap(s => s.pendingIds),
+          });
+        }, onError));
+      });
+
+    return () => {
+      cancelled = true;
+      stopListening.forEach(stop => stop());
+    };
+  }
+
+  // Only documents that differ from the cloud are written. While offline Firestore queues the
+  // batch in its cache and the promise resolves once the server confirms it.
+  public async push(user: SyncUser, snapshot: SyncSnapshot) {
+    const changes = diffDocs(snapshot, this.remoteDocs);
+    if (changes.length > 0) await this.writeDocs(user, changes);
+  }
+
+  private collection(user: SyncUser, name: CollectionName) {
+    return collection(this.db, 'users', user.id, name);
+  }
+
+  private async writeDocs(user: SyncUser, docs: DocWrite[], userUpdate?: UpdateData<DocumentData>) {
+    const chunks: DocWrite[][] = [];
+    for (let i = 0; i < docs.length; i += BATCH_SIZE) chunks.push(docs.slice(i, i + BATCH_SIZE));
+    if (chunks.length === 0 && userUpdate) chunks.push([]);
+
+    for (const [index, chunk] of chunks.entries()) {
+      const batch = writeBatch(this.db);
+      chunk.forEach(({ collection, data }) => batch.set(doc(this.db, 'users', user.id, collection, data.id), data));
+      // Applied with the last batch, once everything before it has been written
+      if (userUpdate && index === chunks.length - 1) {
+        batch.update(doc(this.db, 'users', user.id), userUpdate);
+      }
+      await batch.commit();
+    }
+  }
+
+  // Older versions kept every task in a `tasks` array on users/{uid}. Merge it into the
+  // subcollection once, then drop the array.
+  private async migrateLegacyTasks(user: SyncUser) {
+    const userDoc = await getDoc(doc(this.db, 'users', user.id));
+    const data = userDoc.data();
+    if (!Array.isArray(data?.tasks)) return;
+
+    const existing = await getDocs(this.collection(user, 'tasks'));
+    const docs: RemoteDocs = {
+      tasks: new Map(existing.docs.map(d => [d.id, { ...d.data(), id: d.id } as RecordDoc])),
+      lists: new Map(),
+    };
+    const legacy: SyncSnapshot = {
+      tasks: data.tasks,
+      lists: [],
+      tombstones: Array.isArray(data.tombstones) ? data.tombstones : [],
+    };
+    const merged = mergeSnapshots(toSnapshot(docs), legacy);
+
+    console.log("Migrating cloud tasks to subcollection", legacy.tasks.length);
+    await this.writeDocs(user, diffDocs(merged, docs), {
+      tasks: deleteField(),
+      tombstones: deleteField(),
+      lastUpdated: deleteField(),
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { AssistantModel, JsonSchema } from './assistantModel';
+
+const API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const MODEL = 'gemini-2.5-flash';
+
+export class GeminiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'GeminiError';
+  }
+}
+
+// Gemini's REST API with JSON output, called directly with the key from GEMINI_API_KEY
+export class GeminiAssistantModel implements AssistantModel {
+  constructor(private apiKey: string, private model = MODEL) {}
+
+  public async generateJson<T>(instructions: string, input: string, schema: JsonSchema): Promise<T> {
+    const response = await fetch(`${API_URL}/${this.model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: instructions }] },
+        contents: [{ role: 'user', parts: [{ text: input }] }],
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: schema,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 400 || response.status === 403) {
+        throw new GeminiError("Gemini rejected the request. Check GEMINI_API_KEY.", response.status);
+      }
+      if (response.status === 429) {
+        throw new GeminiError("Gemini's rate limit was reached. Try again in a minute.", response.status);
+      }
+      throw new GeminiError(`Gemini responded with ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const data = await response.json();
+    const text = data?.candidates?.[0]?.content?.parts?.map((part: { text?: string }) => part.text || '').join('');
+    if (!text) throw new GeminiError("Gemini returned no answer.");
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new GeminiError("Gemini returned an answer that could not be read.");
+    }
+  }
+}
+
+// null when no key is configured, which hides the assistant
+export const createGeminiModel = (apiKey: string | undefined): AssistantModel | null =>
+  apiKey ? new GeminiAssistantModel(apiKey) : null;
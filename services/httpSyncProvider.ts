@@ -0,0 +1,146 @@
+import { SyncUser } from '../types';
+import { EMPTY_SNAPSHOT, SyncSnapshot } from '../utils/merge';
+import { RemoteUpdate, SyncConflictError, SyncProvider } from './syncProvider';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+export class HttpSyncError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'HttpSyncError';
+  }
+}
+
+// Syncs the whole snapshot as one JSON document, using ETags to detect concurrent writes
+export abstract class HttpSyncProvider implements SyncProvider {
+  private etag: string | null = null;
+  private updateListeners = new Set<(update: RemoteUpdate) => void>();
+  private authListeners = new Set<(user: SyncUser | null) => void>();
+
+  protected abstract documentUrl(): string;
+  protected abstract headers(): Record<string, string>;
+  protected abstract user(): SyncUser;
+  // Remembers the sign-in across reloads
+  protected abstract sessionKey(): string;
+
+  // Gives subclasses a chance to fix a failed write (e.g. create a missing folder); true retries it
+  protected async recoverWrite(_response: Response): Promise<boolean> {
+    return false;
+  }
+
+  public async login() {
+    // Fails with the server's error when the URL or credentials are wrong
+    await this.fetchDocument(false);
+    localStorage.setItem(this.sessionKey(), '1');
+    this.notifyAuth();
+  }
+
+  public async logout() {
+    localStorage.removeItem(this.sessionKey());
+    this.etag = null;
+    this.notifyAuth();
+  }
+
+  public onAuthChange(callback: (user: SyncUser | null) => void) {
+    this.authListeners.add(callback);
+    callback(this.currentUser());
+    return () => { this.authListeners.delete(callback); };
+  }
+
+  public async pull(): Promise<SyncSnapshot> {
+    return (await this.fetchDocument(false)) || EMPTY_SNAPSHOT;
+  }
+
+  public subscribe(_user: SyncUser, onUpdate: (update: RemoteUpdate) => void, onError: (error: unknown) => void) {
+    let cancelled = false;
+    this.updateListeners.add(onUpdate);
+
+    const poll = async (conditional: boolean) => {
+      try {
+        const snapshot = await this.fetchDocument(conditional);
+        if (!cancelled && snapshot) onUpdate({ snapshot, fromServer: true, pendingIds: [] });
+      } catch (e) {
+        if (!cancelled) onError(e);
+      }
+    };
+
+    poll(false);
+    const interval = setInterval(() => poll(true), POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      this.updateListeners.delete(onUpdate);
+    };
+  }
+
+  public async push(_user: SyncUser, snapshot: SyncSnapshot) {
+    while (true) {
+      const response = await fetch(this.documentUrl(), {
+        method: 'PUT',
+        headers: {
+          ...this.headers(),
+          'Content-Type': 'application/json',
+          ...(this.etag ? { 'If-Match': this.etag } : { 'If-None-Match': '*' }),
+        },
+        body: JSON.stringify(snapshot),
+      });
+
+      if (response.ok) {
+        this.etag = response.headers.get('ETag');
+        this.updateListeners.forEach(listener => listener({ snapshot, fromServer: true, pendingIds: [] }));
+        return;
+      }
+
+      // A concurrent writer changed the document; the snapshot may be encrypted, so SyncService
+      // merges the newer copy (pull() also refreshes the ETag)
+      if (response.status === 412) throw new SyncConflictError();
+
+      if (await this.recoverWrite(response)) continue;
+      throw this.toError(response);
+    }
+  }
+
+  // null when the document is unchanged since the last fetch (conditional requests only)
+  private async fetchDocument(conditional: boolean): Promise<SyncSnapshot | null> {
+    const response = await fetch(this.documentUrl(), {
+      headers: {
+        ...this.headers(),
+        Accept: 'application/json',
+        ...(conditional && this.etag ? { 'If-None-Match': this.etag } : {}),
+      },
+      cache: 'no-store',
+    });
+
+    if (response.status === 304) return null;
+    // Nothing stored yet
+    if (response.status === 404) {
+      this.etag = null;
+      return EMPTY_SNAPSHOT;
+    }
+    if (!response.ok) throw this.toError(response);
+
+    this.etag = response.headers.get('ETag');
+    const data = await response.json();
+    return {
+      tasks: Array.isArray(data?.tasks) ? data.tasks : [],
+      lists: Array.isArray(data?.lists) ? data.lists : [],
+      tombstones: Array.isArray(data?.tombstones) ? data.tombstones : [],
+    };
+  }
+
+  private toError(response: Response) {
+    if (response.status === 401 || response.status === 403) {
+      return new HttpSyncError("The server rejected the credentials", response.status);
+    }
+    return new HttpSyncError(`Server responded with ${response.status} ${response.statusText}`, response.status);
+  }
+
+  private currentUser() {
+    return localStorage.getItem(this.sessionKey()) ? this.user() : null;
+  }
+
+  private notifyAuth() {
+    const user = this.currentUser();
+    this.authListeners.forEach(listener => listener(user));
+  }
+}
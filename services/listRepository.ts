@@ -0,0 +1,20 @@
+import { TaskList, Tombstone } from '../types';
+import { getOrderedRecords, saveRecordChanges, LISTS_STORE } from './database';
+
+export interface ListRepository {
+  getAll(): Promise<TaskList[]>;
+  // Write only the lists that changed, plus tombstones of deleted ones
+  saveChanges(previous: TaskList[], next: TaskList[], tombstones?: Tombstone[]): Promise<void>;
+}
+
+class IndexedDbListRepository implements ListRepository {
+  public getAll(): Promise<TaskList[]> {
+    return getOrderedRecords<TaskList>(LISTS_STORE);
+  }
+
+  public saveChanges(previous: TaskList[], next: TaskList[], tombstones: Tombstone[] = []) {
+    return saveRecordChanges(LISTS_STORE, previous, next, tombstones);
+  }
+}
+
+export const listRepository: ListRepository = new IndexedDbListRepository();
@@ -0,0 +1,86 @@
+import { Task } from '../types';
+import { formatLeadTime } from '../utils/reminders';
+import { getMeetingUrl } from '../utils/links';
+
+// Actions shown on the system notification. The service worker relays clicks back to open tabs.
+export const NOTIFICATION_ACTIONS = [
+  { action: 'complete', title: 'Complete' },
+  { action: 'snooze-10m', title: 'Snooze 10 min' },
+];
+
+export const OPEN_LINK_ACTION = { action: 'open-link', title: 'Open link' };
+
+// Tasks with a meeting link lead with "Open link"; browsers show only the first few actions
+export const getNotificationActions = (url?: string | null) => {
+  const actions = url ? [OPEN_LINK_ACTION, ...NOTIFICATION_ACTIONS] : NOTIFICATION_ACTIONS;
+  const max = (window.Notification as any)?.maxActions;
+  return typeof max === 'number' && max > 0 ? actions.slice(0, max) : actions;
+};
+
+export const getNotificationTitle = (title: string, leadMinutes = 0) => {
+  return leadMinutes > 0 ? `${title} in ${formatLeadTime(leadMinutes)}` : `Task Due: ${title}`;
+};
+
+export interface NotificationActionMessage {
+  type: 'notification-action';
+  action: string; // '' when the notification body itself was clicked
+  taskId: string;
+}
+
+class NotificationService {
+  public isSupported() {
+    return 'Notification' in window;
+  }
+
+  // Silent notifications make no sound or vibration, e.g. during quiet hours
+  public async show(task: Task, leadMinutes = 0, body?: string, silent = false) {
+    if (!this.isSupported() || Notification.permission !== 'granted') return;
+
+    const title = getNotificationTitle(task.title, leadMinutes);
+    const url = getMeetingUrl(task);
+
+    // Actions are only available through the service worker registration
+    if ('serviceWorker' in navigator) {
+      try {
+        const registration = await navigator.serviceWorker.getRegistration();
+        if (registration) {
+          await registration.showNotification(title, {
+            body,
+            tag: task.id,
+            silent,
+            requireInteraction: true,
+            data: { taskId: task.id, url },
+            actions: getNotificationActions(url),
+          } as NotificationOptions);
+          return;
+        }
+      } catch (e) {
+        console.error("Service worker notification failed", e);
+      }
+    }
+
+    new Notification(title, { body, tag: task.id, silent });
+  }
+
+  public async close(taskId: string) {
+    if (!('serviceWorker' in navigator)) return;
+    const registration = await navigator.serviceWorker.getRegistration();
+    const notifications = await registration?.getNotifications({ tag: taskId });
+    notifications?.forEach(n => n.close());
+  }
+
+  // Subscribe to notification clicks relayed by the service worker
+  public onAction(callback: (message: NotificationActionMessage) => void) {
+    if (!('serviceWorker' in navigator)) return () => {};
+
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type === 'notification-action') {
+        callback(event.data as NotificationActionMessage);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handler);
+    return () => navigator.serviceWorker.removeEventListener('message', handler);
+  }
+}
+
+export const notificationService = new NotificationService();
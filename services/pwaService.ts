@@ -0,0 +1,68 @@
+class PwaService {
+  private registration: ServiceWorkerRegistration | null = null;
+  private listeners = new Set<() => void>();
+  private updateAvailable = false;
+  private reloading = false;
+  private updateRequested = false;
+
+  public register() {
+    if (!('serviceWorker' in navigator)) return;
+    // On the first visit the new worker claims the page, which is not an update
+    const hadController = !!navigator.serviceWorker.controller;
+
+    window.addEventListener('load', () => {
+      navigator.serviceWorker.register('./sw.js')
+        .then(registration => {
+          console.log('SW registered: ', registration);
+          this.registration = registration;
+          this.trackUpdates(registration);
+        })
+        .catch(registrationError => {
+          console.log('SW registration failed: ', registrationError);
+        });
+    });
+
+    // Reload once the new worker has taken over so the page runs the matching assets
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (this.reloading || (!hadController && !this.updateRequested)) return;
+      this.reloading = true;
+      window.location.reload();
+    });
+  }
+
+  private trackUpdates(registration: ServiceWorkerRegistration) {
+    // An update may already be waiting from a previous visit
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      this.notifyUpdate();
+    }
+
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          this.notifyUpdate();
+        }
+      });
+    });
+  }
+
+  private notifyUpdate() {
+    this.updateAvailable = true;
+    this.listeners.forEach(listener => listener());
+  }
+
+  public onUpdateAvailable(callback: () => void) {
+    this.listeners.add(callback);
+    if (this.updateAvailable) callback();
+    return () => { this.listeners.delete(callback); };
+  }
+
+  // Activate the waiting worker; the controllerchange listener reloads the page
+  public applyUpdate() {
+    this.updateRequested = true;
+    this.registration?.waiting?.postMessage({ type: 'skip-waiting' });
+  }
+}
+
+export const pwaService = new PwaService();
@@ -0,0 +1,27 @@
+import { RestSyncConfig, SyncUser } from '../types';
+import { HttpSyncProvider } from './httpSyncProvider';
+
+// Generic JSON endpoint:
+//   GET  {baseUrl}/tasks  -> { tasks, lists, tombstones } with an ETag header (404 when empty)
+//   PUT  {baseUrl}/tasks  <- same body, honouring If-Match / If-None-Match (412 on conflict)
+export class RestSyncProvider extends HttpSyncProvider {
+  constructor(private config: RestSyncConfig) {
+    super();
+  }
+
+  protected documentUrl() {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/tasks`;
+  }
+
+  protected headers(): Record<string, string> {
+    return this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {};
+  }
+
+  protected user(): SyncUser {
+    return { id: this.config.baseUrl, label: new URL(this.config.baseUrl).host };
+  }
+
+  protected sessionKey() {
+    return `windo-sync-session-rest-${this.config.baseUrl}`;
+  }
+}
@@ -0,0 +1,33 @@
+import { AppSettings, DEFAULT_SETTINGS } from '../types';
+import { pickSettings } from '../utils/settings';
+import { LEGACY_SOUND_ID, LEGACY_SOUND_KEY } from './database';
+
+const SETTINGS_KEY = 'windo-settings';
+
+// Settings are small and needed synchronously (theme), so they stay in localStorage
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+
+    const { customSoundData, ...parsed } = JSON.parse(saved);
+    // Older versions kept the custom sound inline as base64. Park it for the
+    // IndexedDB migration, which turns it into a Blob under LEGACY_SOUND_ID.
+    if (customSoundData) {
+      localStorage.setItem(LEGACY_SOUND_KEY, JSON.stringify({ name: parsed.customSoundName, data: customSoundData }));
+      parsed.customSoundId = LEGACY_SOUND_ID;
+    }
+    return { ...DEFAULT_SETTINGS, ...pickSettings(parsed) };
+  } catch (e) {
+    console.error("Failed to load settings:", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings:", e);
+  }
+};
@@ -0,0 +1,40 @@
+import { openDatabase, requestToPromise, transactionDone, SOUNDS_STORE } from './database';
+
+export interface StoredSound {
+  id: string;
+  name: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+// Uploaded audio files, kept as Blobs instead of base64 strings in settings
+class SoundRepository {
+  public async get(id: string): Promise<StoredSound | undefined> {
+    const db = await openDatabase();
+    return requestToPromise<StoredSound | undefined>(db.transaction(SOUNDS_STORE).objectStore(SOUNDS_STORE).get(id));
+  }
+
+  public async getAll(): Promise<StoredSound[]> {
+    const db = await openDatabase();
+    const sounds = await requestToPromise<StoredSound[]>(db.transaction(SOUNDS_STORE).objectStore(SOUNDS_STORE).getAll());
+    return sounds.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public async add(name: string, blob: Blob): Promise<StoredSound> {
+    const sound: StoredSound = { id: crypto.randomUUID(), name, blob, createdAt: Date.now() };
+    const db = await openDatabase();
+    const tx = db.transaction(SOUNDS_STORE, 'readwrite');
+    tx.objectStore(SOUNDS_STORE).put(sound);
+    await transactionDone(tx);
+    return sound;
+  }
+
+  public async delete(id: string) {
+    const db = await openDatabase();
+    const tx = db.transaction(SOUNDS_STORE, 'readwrite');
+    tx.objectStore(SOUNDS_STORE).delete(id);
+    await transactionDone(tx);
+  }
+}
+
+export const soundRepository = new SoundRepository();
@@ -0,0 +1,123 @@
+import { openDatabase, requestToPromise, transactionDone, KEYS_STORE } from './database';
+
+// Synced alongside the tasks so every device can check a passphrase before decrypting
+export const KEY_RECORD_ID = '__windo-sync-key__';
+
+const PBKDF2_ITERATIONS = 600000;
+const LOCAL_KEY_ID = 'sync';
+
+export interface EncryptedPayload {
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+}
+
+export interface KeyRecord {
+  id: typeof KEY_RECORD_ID;
+  keyId: string;
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedPayload; // The keyId, encrypted with the key
+  createdAt: number;
+}
+
+export interface SyncKey {
+  key: CryptoKey;
+  record: KeyRecord;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase");
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+// The cloud data is encrypted and this device has no matching key
+export class EncryptionLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+// `context` is authenticated but not encrypted; it binds a ciphertext to its task id
+export const encryptJson = async (key: CryptoKey, value: unknown, context: string): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    new TextEncoder().encode(JSON.stringify(value)),
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload, context: string): Promise<T> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: new TextEncoder().encode(context) },
+    key,
+    fromBase64(payload.data),
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+export const createSyncKey = async (passphrase: string): Promise<SyncKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const keyId = crypto.randomUUID();
+  return {
+    key,
+    record: {
+      id: KEY_RECORD_ID,
+      keyId,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptJson(key, keyId, KEY_RECORD_ID),
+      createdAt: Date.now(),
+    },
+  };
+};
+
+// Derive the key for an existing record; AES-GCM refuses to decrypt the check with a wrong key
+export const unlockSyncKey = async (passphrase: string, record: KeyRecord): Promise<SyncKey> => {
+  const key = await deriveKey(passphrase, fromBase64(record.salt), record.iterations);
+  try {
+    const keyId = await decryptJson<string>(key, record.check, KEY_RECORD_ID);
+    if (keyId !== record.keyId) throw new WrongPassphraseError();
+  } catch {
+    throw new WrongPassphraseError();
+  }
+  return { key, record };
+};
+
+export const loadSyncKey = async (): Promise<SyncKey | null> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<(SyncKey & { id: string }) | undefined>(db.transaction(KEYS_STORE).objectStore(KEYS_STORE).get(LOCAL_KEY_ID));
+  return stored ? { key: stored.key, record: stored.record } : null;
+};
+
+export const saveSyncKey = async (syncKey: SyncKey | null) => {
+  const db = await openDatabase();
+  const tx = db.transaction(KEYS_STORE, 'readwrite');
+  if (syncKey) tx.objectStore(KEYS_STORE).put({ id: LOCAL_KEY_ID, ...syncKey });
+  else tx.objectStore(KEYS_STORE).delete(LOCAL_KEY_ID);
+  await transactionDone(tx);
+};
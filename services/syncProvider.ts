@@ -0,0 +1,37 @@
+import { SyncUser } from '../types';
+import { SyncSnapshot } from '../utils/merge';
+
+// A cloud state delivered by a provider's subscription
+export interface RemoteUpdate {
+  snapshot: SyncSnapshot;
+  fromServer: boolean; // false when served from an offline cache
+  pendingIds: string[]; // Tasks with writes the server has not confirmed yet
+}
+
+// The cloud changed since the provider last reported it, so the write was refused.
+// SyncService pulls the newer state, merges it and pushes again.
+export class SyncConflictError extends Error {
+  constructor(message = "The cloud data changed during the upload") {
+    super(message);
+    this.name = 'SyncConflictError';
+  }
+}
+
+// Transport for SyncService. Merging, the outbox and retries are handled by SyncService;
+// providers only authenticate and move snapshots.
+export interface SyncProvider {
+  // Auth
+  login(): Promise<void>;
+  logout(): Promise<void>;
+  onAuthChange(callback: (user: SyncUser | null) => void): () => void;
+
+  // Data
+  pull(user: SyncUser): Promise<SyncSnapshot>;
+  // Report the cloud state now and whenever it changes. Providers without live updates poll,
+  // and report the stored state after each push.
+  subscribe(user: SyncUser, onUpdate: (update: RemoteUpdate) => void, onError: (error: unknown) => void): () => void;
+  // Store a snapshot that already contains everything the last update reported.
+  // Resolves once the server has confirmed the write; rejects with SyncConflictError when
+  // another device wrote first.
+  push(user: SyncUser, snapshot: SyncSnapshot): Promise<void>;
+}
@@ -1,93 +1,336 @@
-import { initializeApp, FirebaseApp } from 'firebase/app';
-import { getAuth, signInWithPopup, GoogleAuthProvider, signOut, onAuthStateChanged, User, Auth } from 'firebase/auth';
-import { getFirestore, doc, setDoc, onSnapshot, Firestore } from 'firebase/firestore';
-import { FirebaseConfig, Task } from '../types';
+import { AppSettings, SyncStatus, SyncUser } from '../types';
+import { SyncSnapshot, changedIds, isSameOrder, mergeSnapshots, stableStringify } from '../utils/merge';
+import { SyncConflictError, SyncProvider } from './syncProvider';
+import { EncryptedSyncProvider } from './encryptedSyncProvider';
+import { EncryptionLockedError } from './syncEncryption';
+import { FirebaseSyncProvider } from './firebaseSyncProvider';
+import { RestSyncProvider } from './restSyncProvider';
+import { WebDavSyncProvider } from './webdavSyncProvider';
 
-class SyncService {
-  private app: FirebaseApp | null = null;
-  private auth: Auth | null = null;
-  private db: Firestore | null = null;
-  private unsubscribe: (() => void) | null = null;
-  private initialized = false;
-
-  public initialize(config: FirebaseConfig | null) {
-    if (!config || !config.apiKey || !config.projectId) {
-        this.initialized = false;
-        return;
+// Outbox (ids of unconfirmed changes) and last sync time, kept across reloads
+const SYNC_STATE_KEY = 'windo-sync-state';
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+// Concurrent writers make a push fail; merge with the newer copy and try again
+const MAX_CONFLICT_RETRIES = 3;
+
+const loadSyncState = (): { outbox: string[]; lastSyncedAt: number | null } => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SYNC_STATE_KEY) || '{}');
+    return {
+      outbox: Array.isArray(saved.outbox) ? saved.outbox : [],
+      lastSyncedAt: typeof saved.lastSyncedAt === 'number' ? saved.lastSyncedAt : null,
+    };
+  } catch {
+    return { outbox: [], lastSyncedAt: null };
+  }
+};
+
+// The provider selected in settings, or null while its configuration is incomplete
+const createProvider = (settings: AppSettings): SyncProvider | null => {
+  switch (settings.syncProvider) {
+    case 'firebase': {
+      const config = settings.firebaseConfig;
+      return config?.apiKey && config.projectId ? new FirebaseSyncProvider(config) : null;
     }
-    
+    case 'rest':
+      return settings.restSyncConfig?.baseUrl ? new RestSyncProvider(settings.restSyncConfig) : null;
+    case 'webdav':
+      return settings.webdavSyncConfig?.url ? new WebDavSyncProvider(settings.webdavSyncConfig) : null;
+    default:
+      return null;
+  }
+};
+
+const providerConfig = (settings: AppSettings) => {
+  switch (settings.syncProvider) {
+    case 'firebase': return settings.firebaseConfig;
+    case 'rest': return settings.restSyncConfig;
+    case 'webdav': return settings.webdavSyncConfig;
+  }
+};
+
+class SyncService {
+  private provider: EncryptedSyncProvider | null = null;
+  private providerKey: string | null = null;
+  private stopAuth: (() => void) | null = null;
+  private currentUser: SyncUser | null = null;
+  private authListeners = new Set<(user: SyncUser | null) => void>();
+
+  private subscription: { user: SyncUser; onSnapshotReceived: (snapshot: SyncSnapshot) => void } | null = null;
+  private stopListening: (() => void) | null = null;
+  // Latest cloud state, null until the provider reports it
+  private remote: SyncSnapshot | null = null;
+  // Latest local state handed to saveTasks
+  private local: SyncSnapshot | null = null;
+
+  // Sync status
+  private outbox: Set<string>;
+  private inFlight = new Map<string, number>(); // Task id -> sequence number of the push carrying it
+  private pushSequence = 0;
+  private remotePending: string[] = [];
+  private lastSyncedAt: number | null;
+  private connected = false;
+  private error: string | null = null;
+  private retryAttempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+
+  constructor() {
+    const saved = loadSyncState();
+    this.outbox = new Set(saved.outbox);
+    this.lastSyncedAt = saved.lastSyncedAt;
+
+    window.addEventListener('online', () => this.retryNow());
+    window.addEventListener('offline', () => this.notifyStatus());
+  }
+
+  // Switch to the provider selected in settings; no-op when nothing relevant changed
+  public configure(settings: AppSettings) {
+    const key = stableStringify([settings.syncProvider, providerConfig(settings)]);
+    if (key === this.providerKey) return;
+    this.providerKey = key;
+
+    // Keep the persisted outbox on startup; it is dropped when switching providers
+    if (this.provider) this.stop();
+    if (this.stopAuth) this.stopAuth();
+    this.stopAuth = null;
+    this.setUser(null);
+
     try {
-      // Avoid re-initialization if possible, though firebase SDK handles singleton check usually
-      // We create a fresh app instance reference
-      this.app = initializeApp(config);
-      this.auth = getAuth(this.app);
-      this.db = getFirestore(this.app);
-      this.initialized = true;
-      console.log("Firebase initialized successfully");
+      const provider = createProvider(settings);
+      this.provider = provider ? new EncryptedSyncProvider(provider) : null;
+      if (this.provider) {
+        this.stopAuth = this.provider.onAuthChange(user => this.setUser(user));
+        console.log("Sync provider initialized:", settings.syncProvider);
+      }
     } catch (e) {
-      console.error("Firebase Initialization Failed:", e);
-      this.initialized = false;
+      console.error("Sync Provider Initialization Failed:", e);
+      this.provider = null;
     }
   }
 
   public isInitialized() {
-    return this.initialized;
+    return this.provider !== null;
   }
 
   public async login() {
-    if (!this.auth) throw new Error("Cloud service not initialized. Check settings.");
-    const provider = new GoogleAuthProvider();
-    await signInWithPopup(this.auth, provider);
+    if (!this.provider) throw new Error("Cloud service not initialized. Check settings.");
+    await this.provider.login();
   }
 
   public async logout() {
-    if (this.auth) await signOut(this.auth);
-    if (this.unsubscribe) {
-        this.unsubscribe();
-        this.unsubscribe = null;
-    }
+    this.stop();
+    if (this.provider) await this.provider.logout();
   }
 
-  public onAuthChange(callback: (user: User | null) => void) {
-    if (!this.auth) return () => {};
-    return onAuthStateChanged(this.auth, callback);
+  public onAuthChange(callback: (user: SyncUser | null) => void) {
+    this.authListeners.add(callback);
+    callback(this.currentUser);
+    return () => { this.authListeners.delete(callback); };
   }
 
-  public subscribeToTasks(user: User, onTasksReceived: (tasks: Task[]) => void) {
-    if (!this.db) return;
-    
-    // Unsubscribe previous listener if exists
-    if (this.unsubscribe) this.unsubscribe();
+  public getStatus(): SyncStatus {
+    const state = this.error
+      ? 'error'
+      : !navigator.onLine
+        ? 'offline'
+        : this.outbox.size > 0 || (this.subscription && !this.connected)
+          ? 'syncing'
+          : 'idle';
+    return {
+      state,
+      pending: this.outbox.size,
+      lastSyncedAt: this.lastSyncedAt,
+      error: this.error,
+      encryption: this.provider?.getEncryptionState() ?? 'off',
+    };
+  }
 
-    const userDoc = doc(this.db, 'users', user.uid);
-    
-    this.unsubscribe = onSnapshot(userDoc, (docSnap) => {
-      if (docSnap.exists()) {
-        const data = docSnap.data();
-        if (data && Array.isArray(data.tasks)) {
-          console.log("Received update from cloud", data.tasks.length);
-          onTasksReceived(data.tasks);
-        }
+  public onStatusChange(callback: (status: SyncStatus) => void) {
+    this.statusListeners.add(callback);
+    callback(this.getStatus());
+    return () => { this.statusListeners.delete(callback); };
+  }
+
+  // Enter the passphrase set up on another device
+  public async unlockEncryption(passphrase: string) {
+    if (!this.provider) throw new Error("Cloud service not initialized. Check settings.");
+    await this.provider.unlock(passphrase);
+    this.retryNow();
+  }
+
+  // Enable, change or (with null) disable end-to-end encryption of the cloud data
+  public async setEncryptionPassphrase(passphrase: string | null) {
+    if (!this.provider || !this.subscription) throw new Error("Sign in before changing encryption.");
+    await this.provider.setPassphrase(this.subscription.user, passphrase);
+    this.retryNow();
+  }
+
+  // Skip the backoff wait
+  public retryNow() {
+    this.retryAttempt = 0;
+    this.retry();
+  }
+
+  // Resubscribing reports the cloud state again, which pushes whatever is still missing
+  private retry() {
+    this.clearRetry();
+    this.error = null;
+    this.notifyStatus();
+    this.listen();
+  }
+
+  // The callback receives the cloud snapshot; merge it into local state with mergeSnapshots
+  public subscribeToTasks(user: SyncUser, onSnapshotReceived: (snapshot: SyncSnapshot) => void) {
+    this.subscription = { user, onSnapshotReceived };
+    this.listen();
+  }
+
+  public async saveTasks(user: SyncUser, snapshot: SyncSnapshot) {
+    this.local = snapshot;
+    // Writing before the cloud state is known would overwrite tasks we have not seen yet
+    if (!this.remote) return;
+    await this.push(user, mergeSnapshots(snapshot, this.remote));
+  }
+
+  private listen() {
+    if (!this.provider || !this.subscription) return;
+    const provider = this.provider;
+    const { user, onSnapshotReceived } = this.subscription;
+
+    if (this.stopListening) this.stopListening();
+    this.remote = null;
+    this.connected = false;
+    this.notifyStatus();
+
+    this.stopListening = provider.subscribe(user, (update) => {
+      const previous = this.remote;
+      this.remote = update.snapshot;
+      this.connected = update.fromServer;
+      this.remotePending = update.pendingIds;
+
+      if (!previous || changedIds(update.snapshot, previous).length > 0 || !isSameOrder(update.snapshot, previous)) {
+        console.log("Received update from cloud", update.snapshot.tasks.length);
+        onSnapshotReceived(update.snapshot);
+      }
+      if (update.fromServer && update.pendingIds.length === 0 && this.inFlight.size === 0) {
+        this.lastSyncedAt = Date.now();
+      }
+
+      // Push local changes the cloud is missing (e.g. edits made offline), keeping the cloud's order
+      if (this.local) {
+        this.push(user, mergeSnapshots(update.snapshot, this.local));
+      } else {
+        this.updateOutbox();
       }
     }, (error) => {
-        console.error("Sync Error:", error);
+      console.error("Sync Error:", error);
+      this.fail(error);
     });
   }
 
-  public async saveTasks(user: User, tasks: Task[]) {
-    if (!this.db) return;
+  private stop() {
+    if (this.stopListening) this.stopListening();
+    this.stopListening = null;
+    this.subscription = null;
+    this.remote = null;
+    this.local = null;
+    this.inFlight.clear();
+    this.remotePending = [];
+    this.clearRetry();
+    this.error = null;
+    this.updateOutbox();
+  }
+
+  // Skips pushes that would not change the cloud, so our own update does not trigger another save
+  private async push(user: SyncUser, merged: SyncSnapshot) {
+    if (!this.provider || !this.remote) return;
+    const ids = changedIds(merged, this.remote);
+    if (ids.length === 0 && isSameOrder(merged, this.remote)) {
+      this.updateOutbox();
+      return;
+    }
+
+    const sequence = ++this.pushSequence;
+    ids.forEach(id => this.inFlight.set(id, sequence));
+    this.updateOutbox();
+
     try {
-        const userDoc = doc(this.db, 'users', user.uid);
-        // We overwrite the tasks array. 
-        // In a more complex app, we might handle partial updates or conflicts.
-        await setDoc(userDoc, { 
-            tasks, 
-            lastUpdated: new Date().toISOString() 
-        }, { merge: true });
+        await this.pushMerging(this.provider, user, merged);
+        this.retryAttempt = 0;
+        this.error = null;
+        this.lastSyncedAt = Date.now();
     } catch (e) {
         console.error("Failed to save to cloud", e);
+        this.fail(e);
+    } finally {
+        ids.forEach(id => {
+          if (this.inFlight.get(id) === sequence) this.inFlight.delete(id);
+        });
+        this.updateOutbox();
+    }
+  }
+
+  // Merging happens here on plaintext: the provider may only see encrypted records
+  private async pushMerging(provider: EncryptedSyncProvider, user: SyncUser, merged: SyncSnapshot) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await provider.push(user, merged);
+        return;
+      } catch (e) {
+        if (!(e instanceof SyncConflictError) || attempt >= MAX_CONFLICT_RETRIES) throw e;
+        merged = mergeSnapshots(merged, await provider.pull(user));
+      }
     }
   }
+
+  private fail(e: unknown) {
+    this.error = e instanceof Error ? e.message : String(e);
+    // Retrying cannot help until the passphrase is entered
+    if (!(e instanceof EncryptionLockedError)) this.scheduleRetry();
+    this.notifyStatus();
+  }
+
+  private scheduleRetry() {
+    this.clearRetry();
+    const delay = Math.min(RETRY_BASE_MS * 2 ** this.retryAttempt, RETRY_MAX_MS);
+    this.retryAttempt++;
+    this.retryTimer = setTimeout(() => this.retry(), delay);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private setUser(user: SyncUser | null) {
+    this.currentUser = user;
+    this.authListeners.forEach(listener => listener(user));
+  }
+
+  private updateOutbox() {
+    // Until the cloud state is known, the outbox saved by the last session is the best estimate
+    if (this.subscription && !this.remote && this.inFlight.size === 0) {
+      this.notifyStatus();
+      return;
+    }
+    this.outbox = new Set([...this.inFlight.keys(), ...this.remotePending]);
+    try {
+      localStorage.setItem(SYNC_STATE_KEY, JSON.stringify({ outbox: [...this.outbox], lastSyncedAt: this.lastSyncedAt }));
+    } catch (e) {
+      console.error("Failed to save sync state:", e);
+    }
+    this.notifyStatus();
+  }
+
+  private notifyStatus() {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
 }
 
-export const syncService = new SyncService();
\ No newline at end of file
+export const syncService = new SyncService();
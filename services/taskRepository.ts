@@ -0,0 +1,37 @@
+import { Task, Tombstone } from '../types';
+import { getTodayDate } from '../utils/date';
+import { openDatabase, requestToPromise, getOrderedRecords, saveRecordChanges, TASKS_STORE, TOMBSTONES_STORE } from './database';
+
+export interface TaskRepository {
+  getAll(): Promise<Task[]>;
+  getTombstones(): Promise<Tombstone[]>;
+  // Write only the records that differ between two snapshots of the list, plus any new tombstones
+  saveChanges(previous: Task[], next: Task[], tombstones?: Tombstone[]): Promise<void>;
+}
+
+// Fill in fields that older versions of the app did not store
+export const normalizeTask = (task: any): Task => ({
+  ...task,
+  date: task.date || getTodayDate(),
+  priority: task.priority || 'medium',
+  createdAt: task.createdAt || Date.now(),
+});
+
+// Tasks are stored with their list position so manual ordering survives reloads
+class IndexedDbTaskRepository implements TaskRepository {
+  public async getAll(): Promise<Task[]> {
+    const tasks = await getOrderedRecords<Task>(TASKS_STORE);
+    return tasks.map(normalizeTask);
+  }
+
+  public async getTombstones(): Promise<Tombstone[]> {
+    const db = await openDatabase();
+    return requestToPromise<Tombstone[]>(db.transaction(TOMBSTONES_STORE).objectStore(TOMBSTONES_STORE).getAll());
+  }
+
+  public saveChanges(previous: Task[], next: Task[], tombstones: Tombstone[] = []) {
+    return saveRecordChanges(TASKS_STORE, previous, next, tombstones);
+  }
+}
+
+export const taskRepository: TaskRepository = new IndexedDbTaskRepository();
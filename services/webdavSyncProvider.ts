@@ -0,0 +1,46 @@
+import { SyncUser, WebDavSyncConfig } from '../types';
+import { HttpSyncProvider } from './httpSyncProvider';
+
+const SYNC_FILE = 'windo-tasks.json';
+
+// btoa only accepts Latin-1, so encode the credentials as UTF-8 first
+const toBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(String.fromCharCode(...bytes));
+};
+
+// Stores the snapshot as a JSON file in a WebDAV folder (Nextcloud, Apache mod_dav, rclone serve webdav, ...)
+export class WebDavSyncProvider extends HttpSyncProvider {
+  constructor(private config: WebDavSyncConfig) {
+    super();
+  }
+
+  private folderUrl() {
+    return `${this.config.url.replace(/\/+$/, '')}/`;
+  }
+
+  protected documentUrl() {
+    return `${this.folderUrl()}${SYNC_FILE}`;
+  }
+
+  protected headers(): Record<string, string> {
+    if (!this.config.username) return {};
+    return { Authorization: `Basic ${toBase64(`${this.config.username}:${this.config.password || ''}`)}` };
+  }
+
+  protected user(): SyncUser {
+    const host = new URL(this.config.url).host;
+    return { id: this.documentUrl(), label: this.config.username ? `${this.config.username}@${host}` : host };
+  }
+
+  protected sessionKey() {
+    return `windo-sync-session-webdav-${this.documentUrl()}`;
+  }
+
+  // 409 on PUT means the folder does not exist yet
+  protected async recoverWrite(response: Response) {
+    if (response.status !== 409) return false;
+    const mkcol = await fetch(this.folderUrl(), { method: 'MKCOL', headers: this.headers() });
+    return mkcol.ok;
+  }
+}
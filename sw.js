@@ -1,15 +1,252 @@
 // Service Worker for WinDo Task Notifier
 
+// Both lines are rewritten by the precache plugin in vite.config.ts during `vite build`
+const CACHE_VERSION = 'dev';
+const PRECACHE_URLS = ['./', './index.html', './manifest.json'];
+
+const PRECACHE_PREFIX = 'windo-precache-';
+const PRECACHE_NAME = PRECACHE_PREFIX + CACHE_VERSION;
+const RUNTIME_CACHE = 'windo-runtime-v1';
+
+// Third-party resources the app shell depends on (CDN styles, fonts, import map modules, icons)
+const RUNTIME_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'esm.sh',
+  'unpkg.com',
+];
+
+// Background schedule shared with services/backgroundService.ts — keep in sync
+const DB_NAME = 'windo-background';
+const DB_VERSION = 1;
+const SCHEDULE_STORE = 'schedule';
+const ACTIONS_STORE = 'actions';
+const PERIODIC_SYNC_TAG = 'windo-reminders';
+
+// Alerts older than this are summed up in one "missed" notification and left for the app's missed reminders digest
+const MISSED_GRACE_MS = 2 * 60 * 1000;
+const MISSED_TAG = 'windo-missed';
+const SNOOZE_MINUTES = { '10m': 10 };
+
+const NOTIFICATION_ACTIONS = [
+  { action: 'complete', title: 'Complete' },
+  { action: 'snooze-10m', title: 'Snooze 10 min' },
+];
+const OPEN_LINK_ACTION = { action: 'open-link', title: 'Open link' };
+
+const getNotificationActions = (url) => {
+  const actions = url ? [OPEN_LINK_ACTION, ...NOTIFICATION_ACTIONS] : NOTIFICATION_ACTIONS;
+  const max = self.Notification && self.Notification.maxActions;
+  return max > 0 ? actions.slice(0, max) : actions;
+};
+
+const openDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SCHEDULE_STORE)) db.createObjectStore(SCHEDULE_STORE, { keyPath: 'key' });
+    if (!db.objectStoreNames.contains(ACTIONS_STORE)) db.createObjectStore(ACTIONS_STORE, { autoIncrement: true });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async (stores, mode, callback) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const result = callback(tx);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const getAll = (store) => new Promise((resolve, reject) => {
+  const request = store.getAll();
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Open tabs run the scheduler themselves
+const hasOpenWindows = async () => {
+  const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  return windows.length > 0;
+};
+
+// Periodic sync wakes the worker hours apart, so most alerts are late by then.
+// They add up in a single notification that opens the app and its missed reminders digest.
+const showMissed = async (entries) => {
+  const [previous] = await self.registration.getNotifications({ tag: MISSED_TAG });
+  const titles = [...((previous && previous.data && previous.data.titles) || []), ...entries.map(entry => entry.title)];
+  const unique = [...new Set(titles)];
+  await self.registration.showNotification(`${titles.length} reminder${titles.length === 1 ? '' : 's'} missed`, {
+    tag: MISSED_TAG,
+    body: unique.join(', '),
+    data: { titles },
+  });
+};
+
+const checkSchedule = async () => {
+  if (await hasOpenWindows()) return;
+
+  const now = Date.now();
+  const db = await openDb();
+  const entries = await getAll(db.transaction(SCHEDULE_STORE).objectStore(SCHEDULE_STORE));
+  const dueEntries = entries.filter(entry => entry.at <= now);
+  if (dueEntries.length === 0) return;
+
+  const fresh = dueEntries.filter(entry => now - entry.at <= MISSED_GRACE_MS);
+
+  await runTransaction([SCHEDULE_STORE, ACTIONS_STORE], 'readwrite', (tx) => {
+    dueEntries.forEach(entry => tx.objectStore(SCHEDULE_STORE).delete(entry.key));
+    fresh.forEach(entry => tx.objectStore(ACTIONS_STORE).add({
+      type: 'notified',
+      taskId: entry.taskId,
+      date: entry.date,
+      leadMinutes: entry.leadMinutes,
+      at: now,
+    }));
+  });
+
+  const late = dueEntries.filter(entry => now - entry.at > MISSED_GRACE_MS);
+  if (late.length > 0) await showMissed(late);
+
+  await Promise.all(fresh.map(entry => self.registration.showNotification(entry.notificationTitle, {
+    tag: entry.taskId,
+    requireInteraction: true,
+    silent: !!entry.silent, // Quiet hours
+    data: { taskId: entry.taskId, url: entry.url },
+    actions: getNotificationActions(entry.url),
+  })));
+};
+
+// Record a notification action for the app to apply, and keep the schedule consistent with it
+const recordAction = async (action, taskId) => {
+  const now = Date.now();
+  const db = await openDb();
+  const entries = await getAll(db.transaction(SCHEDULE_STORE).objectStore(SCHEDULE_STORE));
+  const taskEntries = entries.filter(entry => entry.taskId === taskId);
+
+  await runTransaction([SCHEDULE_STORE, ACTIONS_STORE], 'readwrite', (tx) => {
+    const schedule = tx.objectStore(SCHEDULE_STORE);
+    const actions = tx.objectStore(ACTIONS_STORE);
+
+    if (action === 'complete') {
+      taskEntries.forEach(entry => schedule.delete(entry.key));
+      actions.add({ type: 'complete', taskId, at: now });
+      return;
+    }
+
+    const minutes = SNOOZE_MINUTES[action.slice('snooze-'.length)];
+    if (!minutes) return;
+    const until = now + minutes * 60 * 1000;
+    const template = taskEntries[0];
+    actions.add({ type: 'snooze', taskId, until, at: now });
+    if (template) {
+      schedule.put({ ...template, key: `${taskId}@${until}:0`, at: until, leadMinutes: 0 });
+    }
+  });
+};
+
+// Serve from cache right away and refresh the cached copy in the background
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      // Opaque (no-cors) responses have status 0 but are still usable
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// Always try for the latest app shell, fall back to the precached one when offline
+const networkFirstNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (e) {
+    const cache = await caches.open(PRECACHE_NAME);
+    return (await cache.match('./index.html')) || (await cache.match('./')) || Response.error();
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  return cached || fetch(request);
+};
+
 self.addEventListener('install', (event) => {
-  self.skipWaiting();
+  // The new version waits until the user accepts the update toast (see 'skip-waiting' below)
+  event.waitUntil(caches.open(PRECACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(clients.claim());
+  const cleanup = caches.keys().then(keys => Promise.all(
+    keys
+      .filter(key => key.startsWith(PRECACHE_PREFIX) && key !== PRECACHE_NAME)
+      .map(key => caches.delete(key))
+  ));
+  event.waitUntil(Promise.all([cleanup, clients.claim(), checkSchedule()]));
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'skip-waiting') {
+    self.skipWaiting();
+  }
 });
 
 self.addEventListener('fetch', (event) => {
-  // Pass-through fetch handler to meet PWA requirements.
-  // In a production build, this would handle caching for offline support.
-  event.respondWith(fetch(event.request));
-});
\ No newline at end of file
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+  } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  } else if (url.origin === self.location.origin && CACHE_VERSION !== 'dev') {
+    // Build output is content-hashed, so cached copies never go stale
+    event.respondWith(cacheFirst(request));
+  }
+  // Anything else (Firestore, APIs, dev server modules) goes straight to the network
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(checkSchedule());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const taskId = notification.data && notification.data.taskId;
+  const url = notification.data && notification.data.url;
+  notification.close();
+
+  // Meeting links open directly; open tabs are still told so they can silence the alarm
+  if (event.action === 'open-link' && url) {
+    event.waitUntil((async () => {
+      const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+      windows.forEach(client => client.postMessage({ type: 'notification-action', action: event.action, taskId }));
+      await clients.openWindow(url);
+    })());
+    return;
+  }
+
+  // Relay the chosen action (e.g. snooze) to the open app. Without a tab, record it for the app's next start.
+  event.waitUntil((async () => {
+    const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows.forEach(client => client.postMessage({ type: 'notification-action', action: event.action, taskId }));
+      if (!event.action) await windows[0].focus();
+    } else if (event.action && taskId) {
+      await recordAction(event.action, taskId);
+    } else {
+      await clients.openWindow('./');
+    }
+  })());
+});
@@ -1,5 +1,39 @@
 export type Priority = 'high' | 'medium' | 'low';
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Modelled after iCalendar RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL)
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months/years
+  byWeekday?: number[]; // Weekly: 0 (Sun) - 6 (Sat)
+  byMonthDay?: number; // Monthly and yearly: day of month (clamped to month length)
+  byNthWeekday?: { n: number; weekday: number }; // Monthly: e.g. { n: 2, weekday: 1 } = 2nd Monday, n = -1 for last
+  count?: number; // End after N occurrences
+  until?: string; // End date, Format "YYYY-MM-DD" (inclusive)
+}
+
+export interface TaskReminder {
+  offsetMinutes: number; // How long before the due time to alert
+  fired?: boolean;
+}
+
+// A checklist item inside a task
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+  time?: string; // Format "HH:mm", on the task's date
+}
+
+// A file attached to a task. The content stays in this device's IndexedDB (see attachmentRepository).
+export interface Attachment {
+  id: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -8,12 +42,94 @@ export interface Task {
   priority: Priority;
   completed: boolean;
   notified?: boolean;
+  snoozedUntil?: number; // Timestamp (ms) when a snoozed alarm rings again
+  quietDeferred?: boolean; // snoozedUntil was set by quiet hours, so it moves when they change
+  reminders?: TaskReminder[]; // Advance reminders before the due time
+  createdAt?: number;
+  recurrence?: RecurrenceRule;
+  occurrence?: number; // 1-based index of the current occurrence in a recurring series
+  listId?: string; // TaskList the task belongs to; the Inbox when unset
+  tags?: string[]; // Lowercase, without the leading "#"
+  subtasks?: Subtask[]; // Checklist, in display order
+  notes?: string; // Markdown
+  attachments?: Attachment[];
+  sound?: AlarmSound; // Overrides the list and priority sounds
+  updatedAt?: number; // Timestamp (ms) of the latest change to any field
+  fieldUpdatedAt?: Partial<Record<keyof Task, number>>; // Per-field change timestamps for sync merges
+}
+
+// Marks a deleted task or list so the deletion survives merging with other devices
+export interface Tombstone {
+  id: string;
+  deletedAt: number;
+  kind?: 'list'; // A task when unset
+}
+
+// Synthesized tones, see utils/tones
+export type ToneId = 'bell' | 'chime' | 'urgent' | 'beep' | 'marimba' | 'siren';
+
+export type SoundMode = ToneId | 'tts' | 'custom';
+
+// A reminder sound. Tasks and priorities can each pick one instead of the app setting.
+export interface AlarmSound {
+  mode: SoundMode;
+  soundId?: string; // custom: a sound from the library (see soundRepository); the app's custom sound when unset
+  phrase?: string; // tts: spoken for the due alarm instead of the template, placeholders included
+}
+
+export type ListColor = 'blue' | 'green' | 'amber' | 'red' | 'purple' | 'pink' | 'slate';
+export type ListIcon = 'list' | 'briefcase' | 'home' | 'cart' | 'heart' | 'book' | 'star' | 'users';
+
+// A project or area that groups tasks, with defaults for the tasks in it
+export interface TaskList {
+  id: string;
+  name: string;
+  color: ListColor;
+  icon: ListIcon;
+  defaultPriority: Priority; // Preselected for new tasks in this list
+  soundMode?: SoundMode; // Reminder sound for this list's tasks; the app setting when unset
   createdAt?: number;
+  updatedAt?: number;
+  fieldUpdatedAt?: Partial<Record<keyof TaskList, number>>;
 }
 
-export type SoundMode = 'bell' | 'tts' | 'custom';
 export type SortOption = 'manual' | 'priority' | 'date' | 'creation';
 
+export type DateRangeFilter = 'overdue' | 'today' | 'week' | 'none';
+
+// Criteria of the filter bar; empty criteria match every task
+export interface TaskFilter {
+  query: string; // Searched in titles and tags
+  tags: string[]; // Tasks must carry all of them
+  priorities: Priority[]; // Tasks must have one of them
+  dateRange: DateRangeFilter | null;
+}
+
+// A named filter, shown as a smart list next to the tabs
+export interface SavedFilter {
+  id: string;
+  name: string;
+  filter: TaskFilter;
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // Tasks with changes the server has not confirmed yet
+  lastSyncedAt: number | null;
+  error: string | null;
+  encryption: 'off' | 'on' | 'locked'; // locked: the cloud data is encrypted and no valid passphrase was entered
+}
+
+export type SyncProviderId = 'firebase' | 'rest' | 'webdav';
+
+// Signed-in account of the active sync provider
+export interface SyncUser {
+  id: string;
+  label: string; // e.g. email address or server host
+}
+
 export interface FirebaseConfig {
   apiKey: string;
   authDomain: string;
@@ -23,28 +139,84 @@ export interface FirebaseConfig {
   appId?: string;
 }
 
+// Self-hosted JSON endpoint, see restSyncProvider
+export interface RestSyncConfig {
+  baseUrl: string;
+  token?: string; // Sent as a Bearer token
+}
+
+export interface WebDavSyncConfig {
+  url: string; // Folder that holds the sync file
+  username?: string;
+  password?: string;
+}
+
+// A weekly time range in which alarms are quiet. Ends the next day when `end` is not after `start`.
+export interface QuietHoursWindow {
+  id: string;
+  days: number[]; // Days the window starts on, 0 (Sun) - 6 (Sat)
+  start: string; // Format "HH:mm"
+  end: string;
+}
+
+// What alarms do during quiet hours and Do Not Disturb: show only a silent notification,
+// wait until they end, or ring for high priority tasks (the others stay silent)
+export type QuietHoursPolicy = 'silent' | 'defer' | 'high-priority';
+
 export interface AppSettings {
   theme: 'light' | 'dark';
   autoComplete: boolean;
+  completeWithSubtasks: boolean; // Complete a task when its last subtask is checked
   soundMode: SoundMode;
-  customSoundData: string | null; // Base64 string of MP3
+  customSoundId: string | null; // Blob stored in IndexedDB (see soundRepository)
   customSoundName: string | null;
   volume: number; // 0 to 1
   audioDuration: number; // in seconds, max 300
   audioLoop: boolean; // Play continuously until stopped
+  audioEscalate: boolean; // Start quiet and get louder and faster over audioDuration
   voiceURI: string | null; // Specific voice for TTS
+  ttsLanguage: string; // Filters the voice picker and picks a voice when none is chosen, e.g. "de"; all when empty
+  ttsTemplate: string; // Spoken for due alarms, with placeholders like {title}; the default in the voice's language when empty
+  ttsReminderTemplate: string; // Spoken for advance reminders
+  ttsRate: number; // 0.5 to 2
+  ttsPitch: number; // 0 to 2
+  prioritySounds: Partial<Record<Priority, AlarmSound>>; // Used instead of soundMode for tasks of that priority
+  quietHours: QuietHoursWindow[];
+  quietHoursPolicy: QuietHoursPolicy;
+  dndUntil: number | null; // Manual Do Not Disturb, on until this timestamp (ms)
+  syncProvider: SyncProviderId;
   firebaseConfig: FirebaseConfig | null;
+  restSyncConfig: RestSyncConfig | null;
+  webdavSyncConfig: WebDavSyncConfig | null;
+  defaultReminders: number[]; // Lead times (minutes) added to new tasks
+  savedFilters: SavedFilter[];
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
   theme: 'light',
   autoComplete: false,
+  completeWithSubtasks: false,
   soundMode: 'bell',
-  customSoundData: null,
+  customSoundId: null,
   customSoundName: null,
   volume: 0.8,
   audioDuration: 30,
   audioLoop: true,
+  audioEscalate: false,
   voiceURI: null,
+  ttsLanguage: '',
+  ttsTemplate: '',
+  ttsReminderTemplate: '',
+  ttsRate: 1,
+  ttsPitch: 1,
+  prioritySounds: { high: { mode: 'urgent' }, low: { mode: 'chime' } },
+  quietHours: [],
+  quietHoursPolicy: 'silent',
+  dndUntil: null,
+  syncProvider: 'firebase',
   firebaseConfig: null,
+  restSyncConfig: null,
+  webdavSyncConfig: null,
+  defaultReminders: [],
+  savedFilters: [],
 };
\ No newline at end of file
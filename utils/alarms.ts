@@ -0,0 +1,23 @@
+// Alarms that ring at the same time are collected into one queue, announced together
+// and handled one by one from the banner.
+
+import { Priority, Task } from '../types';
+
+export interface RingingAlert {
+  taskId: string;
+  leadMinutes: number; // > 0 for an advance reminder
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 3, medium: 2, low: 1 };
+
+// New alerts join the end of the queue; a task that rings again keeps its place with the new lead time
+export const mergeAlerts = (current: RingingAlert[], incoming: RingingAlert[]): RingingAlert[] => {
+  const latest = new Map(incoming.map(alert => [alert.taskId, alert]));
+  const kept = current.map(alert => latest.get(alert.taskId) || alert);
+  const added = [...latest.values()].filter(alert => !current.some(c => c.taskId === alert.taskId));
+  return [...kept, ...added];
+};
+
+// The task whose sound plays for the whole group: the highest priority, the earliest in the queue on ties
+export const getMostUrgent = (tasks: Task[]): Task | undefined =>
+  tasks.reduce<Task | undefined>((best, task) => !best || PRIORITY_RANK[task.priority] > PRIORITY_RANK[best.priority] ? task : best, undefined);
@@ -0,0 +1,160 @@
+// Spoken alarm text. Templates contain placeholders like {title}; the default templates and
+// the words filled in (priorities, durations) follow the language of the voice.
+
+import { Priority, Task, TaskList } from '../types';
+import { getDueTimestamp } from './date';
+
+// What an alarm is about, before it is put into words
+export interface Announcement {
+  title: string;
+  time: string; // "HH:mm"
+  priority: Priority;
+  list?: string; // List name; the Inbox when unset
+  leadMinutes: number; // > 0 for advance reminders
+  overdueMinutes: number; // > 0 when the alarm rings after the due time, e.g. after a snooze
+}
+
+export const getTaskAnnouncement = (task: Task, list: TaskList | undefined, leadMinutes: number, now = Date.now()): Announcement => ({
+  title: task.title,
+  time: task.time,
+  priority: task.priority,
+  list: list?.name,
+  leadMinutes,
+  overdueMinutes: leadMinutes > 0 ? 0 : Math.max(0, Math.floor((now - getDueTimestamp(task.date, task.time)) / 60000)),
+});
+
+export const ANNOUNCEMENT_PLACEHOLDERS = ['title', 'time', 'priority', 'list', 'overdue', 'lead'] as const;
+
+interface AnnouncementStrings {
+  due: string;
+  overdue: string;
+  reminder: string;
+  group: string; // Several alarms at once, with {count} and {titles}
+  priorities: Record<Priority, string>;
+  inbox: string;
+  units: Record<'minute' | 'hour' | 'day', [string, string]>; // Singular and plural
+}
+
+export const ANNOUNCEMENT_STRINGS: Record<string, AnnouncementStrings> = {
+  en: {
+    due: 'Task due: {title}',
+    overdue: '{title} is {overdue} overdue',
+    reminder: '{title} in {lead}',
+    group: '{count} tasks due: {titles}',
+    priorities: { high: 'high priority', medium: 'medium priority', low: 'low priority' },
+    inbox: 'Inbox',
+    units: { minute: ['minute', 'minutes'], hour: ['hour', 'hours'], day: ['day', 'days'] },
+  },
+  de: {
+    due: 'Aufgabe fällig: {title}',
+    overdue: '{title} ist seit {overdue} überfällig',
+    reminder: '{title} in {lead}',
+    group: '{count} Aufgaben fällig: {titles}',
+    priorities: { high: 'hohe Priorität', medium: 'mittlere Priorität', low: 'niedrige Priorität' },
+    inbox: 'Eingang',
+    units: { minute: ['Minute', 'Minuten'], hour: ['Stunde', 'Stunden'], day: ['Tag', 'Tagen'] },
+  },
+  es: {
+    due: 'Tarea pendiente: {title}',
+    overdue: '{title} lleva {overdue} de retraso',
+    reminder: '{title} en {lead}',
+    group: '{count} tareas pendientes: {titles}',
+    priorities: { high: 'prioridad alta', medium: 'prioridad media', low: 'prioridad baja' },
+    inbox: 'Bandeja de entrada',
+    units: { minute: ['minuto', 'minutos'], hour: ['hora', 'horas'], day: ['día', 'días'] },
+  },
+  fr: {
+    due: 'Tâche à faire : {title}',
+    overdue: '{title} est en retard de {overdue}',
+    reminder: '{title} dans {lead}',
+    group: '{count} tâches à faire : {titles}',
+    priorities: { high: 'priorité haute', medium: 'priorité moyenne', low: 'priorité basse' },
+    inbox: 'Boîte de réception',
+    units: { minute: ['minute', 'minutes'], hour: ['heure', 'heures'], day: ['jour', 'jours'] },
+  },
+  it: {
+    due: 'Attività in scadenza: {title}',
+    overdue: '{title} è in ritardo di {overdue}',
+    reminder: '{title} tra {lead}',
+    group: '{count} attività in scadenza: {titles}',
+    priorities: { high: 'priorità alta', medium: 'priorità media', low: 'priorità bassa' },
+    inbox: 'In arrivo',
+    units: { minute: ['minuto', 'minuti'], hour: ['ora', 'ore'], day: ['giorno', 'giorni'] },
+  },
+};
+
+// "de-DE" and "de_AT" use the German strings; languages without strings fall back to English
+export const getAnnouncementLanguage = (lang: string | undefined) => {
+  const primary = (lang || '').toLowerCase().split(/[-_]/)[0];
+  return ANNOUNCEMENT_STRINGS[primary] ? primary : 'en';
+};
+
+const formatDuration = (minutes: number, strings: AnnouncementStrings) => {
+  const unit = (n: number, name: keyof AnnouncementStrings['units']) => `${n} ${strings.units[name][n === 1 ? 0 : 1]}`;
+  if (minutes >= 24 * 60 && minutes % (24 * 60) === 0) return unit(minutes / (24 * 60), 'day');
+  if (minutes >= 60) {
+    const rest = minutes % 60;
+    return rest ? `${unit(Math.floor(minutes / 60), 'hour')} ${unit(rest, 'minute')}` : unit(minutes / 60, 'hour');
+  }
+  return unit(minutes, 'minute');
+};
+
+// "2:30 PM" or "14:30" as the language says it. Android voices report tags like "en_US".
+const formatSpokenTime = (hours: number, minutes: number, language: string) => {
+  try {
+    return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(language.replace(/_/g, '-') || undefined, { hour: 'numeric', minute: '2-digit' });
+  } catch (e) {
+    return `${hours}:${String(minutes).padStart(2, '0')}`;
+  }
+};
+
+// The built-in template for the alarm, used when the user has not written one
+export const getDefaultTemplate = (announcement: Pick<Announcement, 'leadMinutes' | 'overdueMinutes'>, language: string) => {
+  const strings = ANNOUNCEMENT_STRINGS[getAnnouncementLanguage(language)];
+  if (announcement.leadMinutes > 0) return strings.reminder;
+  return announcement.overdueMinutes > 0 ? strings.overdue : strings.due;
+};
+
+// "A, B and C" in the language's own words
+const formatTitles = (titles: string[], language: string) => {
+  try {
+    return new Intl.ListFormat(language.replace(/_/g, '-') || undefined, { type: 'conjunction' }).format(titles);
+  } catch (e) {
+    return titles.join(', ');
+  }
+};
+
+// Fills in the placeholders. Unknown ones are left as they are, so typos stay audible.
+export const renderAnnouncement = (template: string, announcement: Announcement, language: string) => {
+  const strings = ANNOUNCEMENT_STRINGS[getAnnouncementLanguage(language)];
+  const [hours, minutes] = announcement.time.split(':').map(Number);
+  const values: Record<typeof ANNOUNCEMENT_PLACEHOLDERS[number], string> = {
+    title: announcement.title,
+    time: formatSpokenTime(hours || 0, minutes || 0, language),
+    priority: strings.priorities[announcement.priority],
+    list: announcement.list || strings.inbox,
+    overdue: formatDuration(Math.max(0, Math.round(announcement.overdueMinutes)), strings),
+    lead: formatDuration(announcement.leadMinutes, strings),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    (ANNOUNCEMENT_PLACEHOLDERS as readonly string[]).includes(key) ? values[key as keyof typeof values] : match);
+};
+
+export interface AnnouncementTemplates {
+  due: string; // Empty for the default
+  reminder: string;
+  phrase?: string; // The task's own phrase for its due alarm
+}
+
+// The text spoken for the ringing alarms: the template for a single one, a summary of the titles for several
+export const composeAnnouncement = (announcements: Announcement[], templates: AnnouncementTemplates, language: string) => {
+  if (announcements.length > 1) {
+    const strings = ANNOUNCEMENT_STRINGS[getAnnouncementLanguage(language)];
+    return strings.group
+      .replace('{count}', String(announcements.length))
+      .replace('{titles}', formatTitles(announcements.map(a => a.title), language));
+  }
+  const [announcement] = announcements;
+  const template = announcement.leadMinutes > 0 ? templates.reminder : templates.phrase || templates.due;
+  return renderAnnouncement(template.trim() || getDefaultTemplate(announcement, language), announcement, language);
+};
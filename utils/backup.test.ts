@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, parseBackup } from './backup';
+
+const backup = (settings: unknown) => JSON.stringify({ app: 'windo', version: BACKUP_VERSION, tasks: [], lists: [], settings });
+
+describe('parseBackup', () => {
+  it('keeps the known preferences', () => {
+    const { settings } = parseBackup(backup({ theme: 'dark', volume: 0.5, audioLoop: false, quietHoursPolicy: 'defer', defaultReminders: [10] }));
+    expect(settings).toEqual({ theme: 'dark', volume: 0.5, audioLoop: false, quietHoursPolicy: 'defer', defaultReminders: [10] });
+  });
+
+  it('drops unknown keys, wrong types and state of the exporting device', () => {
+    const { settings } = parseBackup(backup({
+      theme: 'neon', volume: 'loud', audioLoop: 'yes', quietHours: {}, unknownKey: 1,
+      dndUntil: 1760000000000, voiceURI: 'Samantha', syncProvider: 'rest', ttsRate: 1.5,
+    }));
+    expect(settings).toEqual({ ttsRate: 1.5 });
+  });
+});
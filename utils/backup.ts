@@ -0,0 +1,78 @@
+// Versioned JSON backups of tasks, lists and settings
+
+import { AppSettings, Task, TaskList } from '../types';
+import { pickSettings } from './settings';
+
+export const BACKUP_VERSION = 1;
+
+export interface Backup {
+  app: 'windo';
+  version: number;
+  exportedAt: string; // ISO 8601
+  tasks: Task[];
+  lists: TaskList[];
+  settings: Partial<AppSettings>;
+}
+
+export interface BackupContents {
+  tasks: Task[];
+  lists: TaskList[];
+  settings: Partial<AppSettings>;
+}
+
+// Sync connections (with their credentials), uploaded sounds and voices belong to this device,
+// and Do Not Disturb to the moment it was turned on
+const DEVICE_SETTINGS: (keyof AppSettings)[] = [
+  'syncProvider', 'firebaseConfig', 'restSyncConfig', 'webdavSyncConfig', 'customSoundId', 'customSoundName', 'voiceURI',
+  'dndUntil',
+];
+
+const withoutDeviceSettings = (settings: Partial<AppSettings>) => {
+  const portable: Partial<AppSettings> = { ...settings };
+  DEVICE_SETTINGS.forEach(key => delete portable[key]);
+  return portable;
+};
+
+export const createBackup = (tasks: Task[], lists: TaskList[], settings: AppSettings, now = Date.now()): Backup => ({
+  app: 'windo',
+  version: BACKUP_VERSION,
+  exportedAt: new Date(now).toISOString(),
+  tasks,
+  lists,
+  settings: withoutDeviceSettings(settings),
+});
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTask = (value: unknown): value is Task => isRecord(value)
+  && typeof value.id === 'string' && value.id !== ''
+  && typeof value.title === 'string'
+  && typeof value.date === 'string' && typeof value.time === 'string'
+  && ['high', 'medium', 'low'].includes(value.priority)
+  && typeof value.completed === 'boolean';
+
+const isList = (value: unknown): value is TaskList => isRecord(value)
+  && typeof value.id === 'string' && value.id !== ''
+  && typeof value.name === 'string';
+
+// Malformed records and settings are dropped; a file from a newer app version is refused
+export const parseBackup = (text: string): BackupContents => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.app !== 'windo' || !Array.isArray(data.tasks)) {
+    throw new Error("The file is not a WinDo backup.");
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error("The backup was made by a newer version of WinDo. Update the app to restore it.");
+  }
+
+  return {
+    tasks: data.tasks.filter(isTask),
+    lists: Array.isArray(data.lists) ? data.lists.filter(isList) : [],
+    settings: isRecord(data.settings) ? withoutDeviceSettings(pickSettings(data.settings)) : {},
+  };
+};
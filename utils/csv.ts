@@ -0,0 +1,62 @@
+// CSV reading and writing following RFC 4180: "a, b" and "say ""hi""" are single cells,
+// quoted cells may span lines and both CRLF and LF line endings are accepted.
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheets in locales with a decimal comma save with semicolons, and some tools export tabs.
+// The delimiter is the candidate that appears most often in the first line outside quotes.
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.replace(/"(?:[^"]|"")*"/g, '').split(/\r?\n/)[0];
+  const counts = DELIMITERS.map(d => firstLine.split(d).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? DELIMITERS[best] : ',';
+};
+
+export const parseCsv = (input: string, delimiter = detectDelimiter(input)): string[][] => {
+  // Excel saves UTF-8 with a byte order mark, which would otherwise stick to the first header
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    // Blank lines carry no data
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const escapeCell = (value: string) => /[",\r\n]/.test(value) || value !== value.trim()
+  ? `"${value.replace(/"/g, '""')}"`
+  : value;
+
+export const toCsv = (rows: string[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
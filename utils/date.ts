@@ -0,0 +1,65 @@
+// Date helpers shared by the scheduler, recurrence rules and the UI.
+// Tasks store local dates as "YYYY-MM-DD" and times as "HH:mm".
+
+export const formatDate = (d: Date) => {
+  return d.getFullYear() + '-' + String(d.getMonth() + 1).padStart(2, '0') + '-' + String(d.getDate()).padStart(2, '0');
+};
+
+export const formatTime = (d: Date) => {
+  return String(d.getHours()).padStart(2, '0') + ':' + String(d.getMinutes()).padStart(2, '0');
+};
+
+export const getTodayDate = () => formatDate(new Date());
+
+// Parse "YYYY-MM-DD" as a local date (new Date("YYYY-MM-DD") would be UTC)
+export const parseDate = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+};
+
+export const addDays = (d: Date, days: number) => {
+  const result = new Date(d);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const getDaysInMonth = (year: number, month: number) => {
+  return new Date(year, month + 1, 0).getDate();
+};
+
+// Timestamp (ms) of a date + time pair in local time
+export const getDueTimestamp = (date: string, time: string) => {
+  const d = parseDate(date);
+  const [h, m] = (time || '00:00').split(':').map(Number);
+  d.setHours(h || 0, m || 0, 0, 0);
+  return d.getTime();
+};
+
+export const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// e.g. "just now", "5 min ago", "3 h ago", falling back to the date
+export const formatTimeAgo = (timestamp: number, now = Date.now()) => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return formatShortDate(formatDate(new Date(timestamp)));
+};
+
+// e.g. "Mon, Oct 20"
+export const formatShortDate = (value: string) => {
+  const d = parseDate(value);
+  return `${WEEKDAY_SHORT[d.getDay()]}, ${MONTH_SHORT[d.getMonth()]} ${d.getDate()}`;
+};
+
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+// Order of day, month and year in the user's locale, e.g. "dmy" for 31/12/2000
+export const getLocaleDateOrder = (locale?: string): DateOrder => {
+  const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2000, 11, 31))
+    .map(part => part.type).filter(type => type === 'day' || type === 'month' || type === 'year');
+  if (parts[0] === 'year') return 'ymd';
+  return parts[0] === 'day' ? 'dmy' : 'mdy';
+};
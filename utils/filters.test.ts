@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../types';
+import { EMPTY_FILTER, matchesFilter } from './filters';
+
+const task = (patch: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Call dentist',
+  date: '2026-10-20',
+  time: '15:00',
+  priority: 'medium',
+  completed: false,
+  ...patch,
+});
+
+describe('matchesFilter', () => {
+  it('finds tasks without a date or time with the "No date" range', () => {
+    const filter = { ...EMPTY_FILTER, dateRange: 'none' as const };
+    expect(matchesFilter(task(), filter)).toBe(false);
+    expect(matchesFilter(task({ date: '' }), filter)).toBe(true);
+    expect(matchesFilter(task({ time: '' }), filter)).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { Task, TaskFilter } from '../types';
+import { addDays, formatDate, getDueTimestamp } from './date';
+
+export const EMPTY_FILTER: TaskFilter = { query: '', tags: [], priorities: [], dateRange: null };
+
+export const DATE_RANGE_LABELS: Record<NonNullable<TaskFilter['dateRange']>, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  week: 'This week',
+  none: 'No date',
+};
+
+// "#Work Stuff" -> "work-stuff"
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+// Every tag in use, sorted
+export const collectTags = (tasks: Task[]) =>
+  [...new Set(tasks.flatMap(t => t.tags || []))].sort();
+
+export const isFilterActive = (filter: TaskFilter) =>
+  filter.query.trim() !== '' || filter.tags.length > 0 || filter.priorities.length > 0 || filter.dateRange !== null;
+
+export const isSameFilter = (a: TaskFilter, b: TaskFilter) =>
+  a.query.trim().toLowerCase() === b.query.trim().toLowerCase() &&
+  a.dateRange === b.dateRange &&
+  [...a.tags].sort().join() === [...b.tags].sort().join() &&
+  [...a.priorities].sort().join() === [...b.priorities].sort().join();
+
+// Sunday of the week containing `today` (weeks start on Monday)
+const endOfWeek = (today: Date) => addDays(today, (7 - today.getDay()) % 7);
+
+const matchesDateRange = (task: Task, range: TaskFilter['dateRange'], now: Date) => {
+  const today = formatDate(now);
+  switch (range) {
+    case 'overdue': return !!task.date && !task.completed && getDueTimestamp(task.date, task.time) < now.getTime();
+    case 'today': return task.date === today;
+    case 'week': return !!task.date && task.date >= today && task.date <= formatDate(endOfWeek(now));
+    case 'none': return !task.date || !task.time;
+    default: return true;
+  }
+};
+
+export const matchesFilter = (task: Task, filter: TaskFilter, now = new Date()) => {
+  const tags = task.tags || [];
+  const query = filter.query.trim().toLowerCase();
+  if (query && !task.title.toLowerCase().includes(query) && !tags.some(tag => tag.includes(normalizeTag(query)))) {
+    return false;
+  }
+  if (filter.tags.some(tag => !tags.includes(tag))) return false;
+  if (filter.priorities.length > 0 && !filter.priorities.includes(task.priority)) return false;
+  return matchesDateRange(task, filter.dateRange, now);
+};
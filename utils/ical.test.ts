@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../types';
+import { parseIcs, tasksToIcs } from './ical';
+
+const task = (patch: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Call dentist',
+  date: '2026-10-20',
+  time: '15:00',
+  priority: 'medium',
+  completed: false,
+  reminders: [{ offsetMinutes: 10 }],
+  ...patch,
+});
+
+const todo = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'BEGIN:VTODO', 'SUMMARY:Call dentist', ...lines, 'END:VTODO', 'END:VCALENDAR'].join('\r\n');
+
+describe('iCalendar alarms', () => {
+  it('relates to-do alarms to the due time', () => {
+    const ics = tasksToIcs([task()], 'VTODO');
+    expect(ics).not.toContain('DTSTART');
+    expect(ics).toContain('TRIGGER;RELATED=END:-PT10M');
+    expect(ics).not.toMatch(/^TRIGGER:/m);
+    expect(parseIcs(ics)[0].reminders).toEqual([{ offsetMinutes: 10 }]);
+  });
+
+  it('keeps event alarms relative to the start', () => {
+    const ics = tasksToIcs([task()], 'VEVENT');
+    expect(ics).toContain('TRIGGER:-PT10M');
+    expect(parseIcs(ics)[0].reminders).toEqual([{ offsetMinutes: 10 }]);
+  });
+
+  it('imports only alarms relative to the due time', () => {
+    const [imported] = parseIcs(todo(
+      'DTSTART:20261019T090000', 'DUE:20261020T150000',
+      'BEGIN:VALARM', 'TRIGGER;RELATED=END:-PT30M', 'END:VALARM',
+      'BEGIN:VALARM', 'TRIGGER:-PT15M', 'END:VALARM',
+    ));
+    expect(imported.reminders).toEqual([{ offsetMinutes: 30 }]);
+  });
+
+  it('reads start-relative alarms of a to-do without a start as relative to the due time', () => {
+    const [imported] = parseIcs(todo('DUE:20261020T150000', 'BEGIN:VALARM', 'TRIGGER:-PT10M', 'END:VALARM'));
+    expect(imported.reminders).toEqual([{ offsetMinutes: 10 }]);
+  });
+});
@@ -0,0 +1,265 @@
+// iCalendar (RFC 5545) export and import. Tasks become VTODOs (to-do apps) or VEVENTs
+// (calendar apps) with floating local times, RRULEs and a VALARM per reminder.
+
+import { Priority, RecurrenceRule, Task } from '../types';
+import { formatDate, formatTime } from './date';
+import { normalizeTag } from './filters';
+import { anchorMonthDay } from './recurrence';
+
+export type IcsComponent = 'VTODO' | 'VEVENT';
+
+const UID_SUFFIX = '@windo';
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const EVENT_DURATION = 'PT15M';
+const ALL_DAY_TIME = '09:00'; // Due time for imported entries without a time
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Text values escape backslashes, separators and newlines
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) => value.replace(/\\([\\;,nN])/g, (_, c) => c.toLowerCase() === 'n' ? '\n' : c);
+
+// Lines are folded at 75 characters, continuation lines start with a space
+const fold = (line: string) => {
+  const chars = Array.from(line);
+  if (chars.length <= 75) return line;
+  const parts = [chars.slice(0, 75).join('')];
+  for (let i = 75; i < chars.length; i += 74) parts.push(' ' + chars.slice(i, i + 74).join(''));
+  return parts.join('\r\n');
+};
+
+const formatLocal = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const formatUtc = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+// Minutes as an RFC 5545 duration, e.g. 90 -> "PT1H30M", 1440 -> "P1D"
+const formatDuration = (minutes: number) => {
+  if (minutes === 0) return 'PT0S';
+  if (minutes % (24 * 60) === 0) return `P${minutes / (24 * 60)}D`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+};
+
+const parseDuration = (value: string) => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = Number(weeks || 0) * 7 * 24 * 60 + Number(days || 0) * 24 * 60 + Number(hours || 0) * 60 + Number(minutes || 0);
+  return sign === '-' ? -total : total;
+};
+
+export const toRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(d => RRULE_DAYS[d]).join(',')}`);
+  }
+  if (rule.freq === 'monthly' && rule.byNthWeekday) {
+    parts.push(`BYDAY=${rule.byNthWeekday.n}${RRULE_DAYS[rule.byNthWeekday.weekday]}`);
+  } else if (rule.freq === 'monthly' && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}T235959`);
+  return parts.join(';');
+};
+
+// Rules this app cannot represent (e.g. hourly, several BYMONTHDAYs) are approximated or dropped
+export const parseRRule = (value: string): RecurrenceRule | undefined => {
+  const fields = Object.fromEntries(value.replace(/^RRULE:/i, '').split(';').map(part => {
+    const [key, val = ''] = part.split('=');
+    return [key.trim().toUpperCase(), val.trim().toUpperCase()];
+  }));
+
+  const freq = ({ DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly', YEARLY: 'yearly' } as const)[fields.FREQ as string];
+  if (!freq) return undefined;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(fields.INTERVAL, 10) || 1) };
+  const days = (fields.BYDAY || '').split(',').filter(Boolean).map((day: string) => {
+    const match = day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? { n: match[1] ? Number(match[1]) : undefined, weekday: RRULE_DAYS.indexOf(match[2]) } : null;
+  }).filter(Boolean) as { n?: number; weekday: number }[];
+
+  if (freq === 'weekly' && days.length > 0) {
+    rule.byWeekday = [...new Set(days.map(d => d.weekday))].sort();
+  } else if (freq === 'monthly' && days.length > 0) {
+    const n = days[0].n ?? parseInt(fields.BYSETPOS, 10);
+    if (n >= 1 && n <= 5 || n === -1) rule.byNthWeekday = { n, weekday: days[0].weekday };
+  } else if (freq === 'monthly' && fields.BYMONTHDAY) {
+    const day = parseInt(fields.BYMONTHDAY, 10);
+    if (day >= 1 && day <= 31) rule.byMonthDay = day;
+  }
+
+  const count = parseInt(fields.COUNT, 10);
+  if (count > 0) rule.count = count;
+  const until = (fields.UNTIL || '').match(/^(\d{4})(\d{2})(\d{2})/);
+  if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+  return rule;
+};
+
+const ICS_PRIORITY: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+export const tasksToIcs = (tasks: Task[], component: IcsComponent, now = Date.now()) => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//WinDo//Task Notifier//EN', 'CALSCALE:GREGORIAN'];
+
+  tasks.forEach(task => {
+    const due = formatLocal(task.date, task.time);
+    lines.push(`BEGIN:${component}`, `UID:${task.id}${UID_SUFFIX}`, `DTSTAMP:${formatUtc(now)}`, `SUMMARY:${escapeText(task.title)}`);
+    if (component === 'VEVENT') {
+      lines.push(`DTSTART:${due}`, `DURATION:${EVENT_DURATION}`);
+    } else {
+      // Recurring to-dos need a DTSTART to anchor the rule
+      if (task.recurrence) lines.push(`DTSTART:${due}`);
+      lines.push(`DUE:${due}`, `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+      if (task.completed) lines.push(`COMPLETED:${formatUtc(task.updatedAt || now)}`);
+    }
+    lines.push(`PRIORITY:${ICS_PRIORITY[task.priority]}`);
+    if (task.recurrence) lines.push(`RRULE:${toRRule(task.recurrence)}`);
+    if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+    if (task.notes) lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+    if (task.createdAt) lines.push(`CREATED:${formatUtc(task.createdAt)}`);
+    if (task.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(task.updatedAt)}`);
+
+    // One alarm at the due time plus one per advance reminder. A to-do is due at its end (DUE),
+    // and it may have no DTSTART for a start-relative trigger to refer to.
+    const trigger = component === 'VTODO' ? 'TRIGGER;RELATED=END' : 'TRIGGER';
+    [0, ...(task.reminders || []).map(r => r.offsetMinutes)].forEach(offset => {
+      lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(task.title)}`, `${trigger}:${offset > 0 ? '-' : ''}${formatDuration(offset)}`, 'END:VALARM');
+    });
+    lines.push(`END:${component}`);
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseLine = (line: string): IcsProperty | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length && colon < 0; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) colon = i;
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, val = ''] = part.split('=');
+    params[key.toUpperCase()] = val.replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// DATE or DATE-TIME value as local date and time. UTC times are converted; times with a TZID are taken as local.
+const parseDateTime = (prop: IcsProperty): { date: string; time?: string } | null => {
+  const match = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, , utc] = match;
+  if (h === undefined) return { date: `${y}-${mo}-${d}` };
+  if (utc) {
+    const local = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi)));
+    return { date: formatDate(local), time: formatTime(local) };
+  }
+  return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}` };
+};
+
+const parseTimestamp = (prop: IcsProperty) => {
+  const match = prop.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, sec] = match.map(Number);
+  return match[7] ? Date.UTC(y, mo - 1, d, h, mi, sec) : new Date(y, mo - 1, d, h, mi, sec).getTime();
+};
+
+const toPriority = (value: string | undefined): Priority => {
+  const n = parseInt(value || '', 10);
+  if (n >= 1 && n <= 4) return 'high';
+  if (n >= 6 && n <= 9) return 'low';
+  return 'medium';
+};
+
+const taskFromComponent = (kind: IcsComponent, props: IcsProperty[], triggers: IcsProperty[]): Task | null => {
+  const get = (name: string) => props.find(p => p.name === name);
+  const title = unescapeText(get('SUMMARY')?.value || '').trim();
+  const dueProp = (kind === 'VTODO' && get('DUE')) || get('DTSTART');
+  const due = dueProp ? parseDateTime(dueProp) : null;
+  if (!title || !due) return null;
+
+  const uid = get('UID')?.value.trim();
+  const createdAt = get('CREATED') && parseTimestamp(get('CREATED')!);
+  const tags = (get('CATEGORIES')?.value || '').split(/(?<!\\),/).map(t => normalizeTag(unescapeText(t))).filter(Boolean);
+  const notes = unescapeText(get('DESCRIPTION')?.value || '').trim();
+  const rule = get('RRULE') && parseRRule(get('RRULE')!.value);
+  const recurrence = rule && anchorMonthDay(rule, due.date);
+  // Only alarms relative to the due time map to reminders. Start-relative ones in a to-do
+  // without DTSTART (invalid, but written by older exports) are taken as relative to DUE.
+  const relatedTo = (trigger: IcsProperty) => trigger.params.RELATED === 'END' ? get('DUE') : get('DTSTART') || dueProp;
+  const offsets = triggers
+    .filter(trigger => trigger.params.VALUE !== 'DATE-TIME' && relatedTo(trigger)?.value === dueProp?.value)
+    .map(trigger => parseDuration(trigger.value.trim()))
+    .filter((m): m is number => m !== null && m < 0).map(m => -m);
+  const status = get('STATUS')?.value.toUpperCase();
+
+  return {
+    // Tasks exported by this app keep their id, so importing them again updates instead of duplicating
+    id: uid ? (uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : uid).replace(/\//g, '_') : crypto.randomUUID(),
+    title,
+    date: due.date,
+    time: due.time || ALL_DAY_TIME,
+    priority: toPriority(get('PRIORITY')?.value),
+    completed: status === 'COMPLETED' || !!get('COMPLETED'),
+    ...(createdAt ? { createdAt } : {}),
+    ...(tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+    ...(notes ? { notes } : {}),
+    ...(recurrence ? { recurrence, occurrence: 1 } : {}),
+    ...(offsets.length > 0 ? { reminders: [...new Set(offsets)].sort((a, b) => b - a).map(offsetMinutes => ({ offsetMinutes })) } : {}),
+  };
+};
+
+// VTODOs and VEVENTs of a calendar file as tasks; entries without a title or date are skipped
+export const parseIcs = (text: string): Task[] => {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const tasks: Task[] = [];
+  let current: { kind: IcsComponent; props: IcsProperty[]; triggers: IcsProperty[] } | null = null;
+  let inAlarm = false;
+
+  lines.forEach(line => {
+    const prop = parseLine(line);
+    if (!prop) return;
+    const value = prop.value.trim().toUpperCase();
+
+    if (prop.name === 'BEGIN' && (value === 'VTODO' || value === 'VEVENT')) {
+      current = { kind: value, props: [], triggers: [] };
+    } else if (prop.name === 'END' && current && value === current.kind) {
+      const task = taskFromComponent(current.kind, current.props, current.triggers);
+      if (task) tasks.push(task);
+      current = null;
+    } else if (prop.name === 'BEGIN' && value === 'VALARM') {
+      inAlarm = true;
+    } else if (prop.name === 'END' && value === 'VALARM') {
+      inAlarm = false;
+    } else if (current && inAlarm) {
+      if (prop.name === 'TRIGGER') current.triggers.push(prop);
+    } else if (current) {
+      current.props.push(prop);
+    }
+  });
+
+  return tasks;
+};
@@ -0,0 +1,61 @@
+// Imports are matched to existing records by id and previewed before they are applied
+
+import { Task } from '../types';
+import { SyncRecord, diffFields, stableStringify } from './merge';
+import { updateReminderOffsets } from './reminders';
+
+export interface RecordUpdate<T> {
+  before: T;
+  after: T;
+  fields: (keyof T)[]; // Data fields the import changes
+}
+
+export interface ImportPlan<T> {
+  added: T[];
+  updated: RecordUpdate<T>[];
+  unchanged: number;
+}
+
+// Imported values replace existing ones field by field. Sync stamps are left to the next
+// save, so the import counts as a fresh edit and wins over older copies on other devices.
+// `reconcile` adjusts an imported record to the existing one before they are compared
+export const planImport = <T extends SyncRecord>(
+  existing: T[], incoming: T[], deletedIds: Set<string>, reconcile: (before: T, imported: T) => T = (_, imported) => imported
+): ImportPlan<T> => {
+  const current = new Map(existing.map(r => [r.id, r]));
+  // A file listing the same record twice keeps the last copy
+  const unique = [...new Map(incoming.map(r => [r.id, r])).values()];
+
+  const plan: ImportPlan<T> = { added: [], updated: [], unchanged: 0 };
+  unique.forEach(({ updatedAt, fieldUpdatedAt, ...data }) => {
+    const before = current.get(data.id);
+    if (!before) {
+      // Records deleted here would be deleted again by the next sync, so they come back as new ones
+      plan.added.push({ ...data, id: deletedIds.has(data.id) ? crypto.randomUUID() : data.id } as T);
+      return;
+    }
+    const after = { ...before, ...reconcile(before, data as T) } as T;
+    const fields = diffFields(before, after) as (keyof T)[];
+    if (fields.length > 0) plan.updated.push({ before, after, fields });
+    else plan.unchanged++;
+  });
+  return plan;
+};
+
+export const applyImport = <T extends SyncRecord>(existing: T[], added: T[], updated: T[]): T[] => {
+  const replacements = new Map(updated.map(r => [r.id, r]));
+  return [...existing.map(r => replacements.get(r.id) || r), ...added];
+};
+
+// CSV and calendar files cannot carry checklist ids, the creation time, fired reminders or the
+// position in a series, so those are kept from the existing task where the imported one still matches
+export const reconcileImportedTask = (before: Task, imported: Task): Task => {
+  const existingIds = new Map((before.subtasks || []).map(s => [s.title, s.id]));
+  return {
+    ...imported,
+    createdAt: before.createdAt ?? imported.createdAt,
+    ...(imported.reminders ? { reminders: updateReminderOffsets(before.reminders, imported.reminders.map(r => r.offsetMinutes)) } : {}),
+    ...(imported.subtasks ? { subtasks: imported.subtasks.map(s => ({ ...s, id: existingIds.get(s.title) || s.id })) } : {}),
+    ...(imported.recurrence && stableStringify(imported.recurrence) === stableStringify(before.recurrence) ? { occurrence: before.occurrence } : {}),
+  };
+};
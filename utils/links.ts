@@ -0,0 +1,41 @@
+import { Task } from '../types';
+
+// http(s) URLs in free text; trailing punctuation belongs to the sentence, not the link
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"]+/gi;
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]}>*_]+$/;
+
+// Video call services whose links get a "Join" shortcut
+const MEETING_HOSTS = [
+  'zoom.us',
+  'meet.google.com',
+  'teams.microsoft.com',
+  'teams.live.com',
+  'webex.com',
+  'whereby.com',
+  'meet.jit.si',
+  'gotomeeting.com',
+  'chime.aws',
+];
+
+export const trimUrl = (url: string) => url.replace(TRAILING_PUNCTUATION, '');
+
+export const findUrls = (text: string): string[] => {
+  return (text.match(URL_PATTERN) || []).map(trimUrl).filter(url => url.length > 'https://'.length);
+};
+
+// Only these schemes are rendered as links, so notes cannot smuggle in javascript: URLs
+export const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url.trim());
+
+export const isMeetingUrl = (url: string) => {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return MEETING_HOSTS.some(h => host === h || host.endsWith(`.${h}`));
+  } catch {
+    return false;
+  }
+};
+
+// First video call link in the task's title or notes
+export const getMeetingUrl = (task: Task): string | null => {
+  return findUrls(`${task.title}\n${task.notes || ''}`).find(isMeetingUrl) || null;
+};
@@ -0,0 +1,24 @@
+import { Task, TaskList } from '../types';
+
+// Views next to the user's own lists
+export const ALL_LISTS = 'all';
+export const INBOX = 'inbox';
+
+export const createList = (name: string, now = Date.now()): TaskList => ({
+  id: crypto.randomUUID(),
+  name,
+  color: 'blue',
+  icon: 'list',
+  defaultPriority: 'medium',
+  createdAt: now,
+});
+
+// The Inbox holds tasks without a list, and tasks whose list was deleted on another device
+export const isInView = (task: Task, view: string, listIds: Set<string>) => {
+  if (view === ALL_LISTS) return true;
+  if (view === INBOX) return !task.listId || !listIds.has(task.listId);
+  return task.listId === view;
+};
+
+export const findList = (lists: TaskList[], id: string | undefined) =>
+  id ? lists.find(l => l.id === id) : undefined;
@@ -0,0 +1,137 @@
+// A small Markdown subset for task notes: headings, paragraphs, lists, quotes, code,
+// **bold**, *italic*, ~~strike~~, `code`, [links](https://...) and bare URLs.
+// Parsed into tokens so the UI renders elements instead of injecting HTML.
+
+import { isSafeUrl, trimUrl } from './links';
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'code'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineToken[] }
+  | { type: 'link'; href: string; children: InlineToken[] };
+
+export type Block =
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineToken[] }
+  | { type: 'paragraph'; children: InlineToken[] }
+  | { type: 'quote'; children: InlineToken[] }
+  | { type: 'list'; ordered: boolean; items: InlineToken[][] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const INLINE_PATTERN = new RegExp([
+  '`(?<code>[^`]+)`',
+  '\\[(?<label>[^\\]]+)\\]\\((?<href>[^)\\s]+)\\)',
+  '\\*\\*(?<bold>.+?)\\*\\*',
+  '(?<![\\w*])\\*(?<italic>[^*\\s](?:.*?[^*\\s])?)\\*(?![\\w*])',
+  '(?<!\\w)_(?<underscore>[^_\\s](?:.*?[^_\\s])?)_(?!\\w)',
+  '~~(?<strike>.+?)~~',
+  '(?<url>\\bhttps?:\\/\\/[^\\s<>"]+)',
+].join('|'), 'g');
+
+export const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  const pushText = (value: string) => {
+    value.split('\n').forEach((line, i) => {
+      if (i > 0) tokens.push({ type: 'break' });
+      if (line) tokens.push({ type: 'text', text: line });
+    });
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const groups = match.groups!;
+    let end = match.index! + match[0].length;
+    pushText(text.slice(last, match.index));
+
+    if (groups.code !== undefined) {
+      tokens.push({ type: 'code', text: groups.code });
+    } else if (groups.label !== undefined) {
+      tokens.push(isSafeUrl(groups.href)
+        ? { type: 'link', href: groups.href, children: parseInline(groups.label) }
+        : { type: 'text', text: match[0] });
+    } else if (groups.bold !== undefined) {
+      tokens.push({ type: 'bold', children: parseInline(groups.bold) });
+    } else if (groups.italic !== undefined || groups.underscore !== undefined) {
+      tokens.push({ type: 'italic', children: parseInline(groups.italic ?? groups.underscore) });
+    } else if (groups.strike !== undefined) {
+      tokens.push({ type: 'strike', children: parseInline(groups.strike) });
+    } else {
+      // Punctuation after a bare URL stays text
+      const url = trimUrl(groups.url);
+      end = match.index! + url.length;
+      tokens.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    }
+    last = end;
+  }
+  pushText(text.slice(last));
+  return tokens;
+};
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*```/;
+
+export const parseMarkdown = (source: string): Block[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    let match: RegExpMatchArray | null;
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if (!line.trim()) {
+      flushParagraph();
+    } else if ((match = line.match(HEADING))) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: Math.min(match[1].length, 3) as 1 | 2 | 3, children: parseInline(match[2]) });
+    } else if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      flushParagraph();
+      const ordered = !BULLET.test(line);
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: InlineToken[][] = [];
+      for (; i < lines.length && (match = lines[i].match(pattern)); i++) items.push(parseInline(match[1]));
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+    } else if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      for (; i < lines.length && (match = lines[i].match(QUOTE)); i++) quoted.push(match[1]);
+      i--;
+      blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return blocks;
+};
+
+// Plain text of the notes, e.g. for a tooltip
+export const getNotesPreview = (source: string, maxLength = 120) => {
+  const text = source
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|[-*+>]|\d+[.)])\s+/gm, '')
+    .replace(/(\*\*|__|~~|`|\*|\b_)(.+?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { Task, Tombstone } from '../types';
+import { SyncSnapshot, changedIds, createTombstones, isSameOrder, mergeSnapshots, stampChanges } from './merge';
+
+// A device as App and SyncService see it: its tasks and the deletions it knows of
+interface Client {
+  tasks: Task[];
+  tombstones: Tombstone[];
+}
+
+const task = (patch: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Call dentist',
+  date: '2026-10-20',
+  time: '15:00',
+  priority: 'medium',
+  completed: false,
+  ...patch,
+});
+
+// The cloud stores JSON, which drops undefined fields
+const roundTrip = (snapshot: SyncSnapshot): SyncSnapshot => JSON.parse(JSON.stringify(snapshot));
+
+const snapshotOf = (client: Client): SyncSnapshot => ({ tasks: client.tasks, lists: [], tombstones: client.tombstones });
+
+// A local edit, stamped the way App does before it persists and syncs
+const edit = (client: Client, update: (tasks: Task[]) => Task[], now: number) => {
+  const next = stampChanges(client.tasks, update(client.tasks), now);
+  client.tombstones = [...client.tombstones, ...createTombstones(client.tasks, next, client.tombstones, now)];
+  client.tasks = next;
+};
+
+// Push the client's state into the remote snapshot, as SyncService does
+const push = (client: Client, remote: SyncSnapshot) => roundTrip(mergeSnapshots(snapshotOf(client), remote));
+
+// Apply a remote update to the client
+const pull = (client: Client, remote: SyncSnapshot) => {
+  const merged = mergeSnapshots(roundTrip(remote), snapshotOf(client));
+  client.tasks = merged.tasks;
+  client.tombstones = merged.tombstones;
+};
+
+// Two devices that both start from the same synced task
+const setup = () => {
+  const remote = roundTrip({ tasks: [task({ updatedAt: 100 })], lists: [], tombstones: [] });
+  const a: Client = { tasks: [], tombstones: [] };
+  const b: Client = { tasks: [], tombstones: [] };
+  pull(a, remote);
+  pull(b, remote);
+  return { remote, a, b };
+};
+
+describe('syncing two clients', () => {
+  it('keeps concurrent edits to different fields from both', () => {
+    let { remote, a, b } = setup();
+    edit(a, tasks => tasks.map(t => ({ ...t, title: 'Call the dentist' })), 1000);
+    edit(b, tasks => tasks.map(t => ({ ...t, priority: 'high' })), 2000);
+
+    remote = push(a, remote);
+    remote = push(b, remote);
+    pull(a, remote);
+    pull(b, remote);
+
+    [a, b].forEach(client => {
+      expect(client.tasks).toHaveLength(1);
+      expect(client.tasks[0].title).toBe('Call the dentist');
+      expect(client.tasks[0].priority).toBe('high');
+    });
+  });
+
+  it('ends in a deletion when one client deletes and the other edits later', () => {
+    let { remote, a, b } = setup();
+    edit(a, () => [], 1000);
+    edit(b, tasks => tasks.map(t => ({ ...t, title: 'Edited after the delete' })), 2000);
+
+    remote = push(a, remote);
+    remote = push(b, remote);
+    pull(a, remote);
+    pull(b, remote);
+
+    expect(remote.tasks).toHaveLength(0);
+    [a, b].forEach(client => {
+      expect(client.tasks).toHaveLength(0);
+      expect(client.tombstones.map(t => t.id)).toEqual(['t1']);
+    });
+  });
+
+  it('spreads a cleared optional field to the other client', () => {
+    let { remote, a, b } = setup();
+    edit(a, tasks => tasks.map(t => ({ ...t, snoozedUntil: 5000 })), 1000);
+    remote = push(a, remote);
+    pull(b, remote);
+    expect(b.tasks[0].snoozedUntil).toBe(5000);
+
+    edit(b, tasks => tasks.map(t => ({ ...t, snoozedUntil: undefined })), 2000);
+    remote = push(b, remote);
+    pull(a, remote);
+
+    expect(a.tasks[0].snoozedUntil).toBeUndefined();
+    expect(remote.tasks[0].snoozedUntil).toBeUndefined();
+  });
+
+  it('does not save again when our own update comes back', () => {
+    let { remote, a } = setup();
+    edit(a, tasks => [...tasks.map(t => ({ ...t, title: 'Renamed' })), task({ id: 't2', title: 'New task' })], 1000);
+    remote = push(a, remote);
+
+    // The subscription reports what we just pushed; SyncService merges it with the local state and pushes only on changes
+    const merged = mergeSnapshots(roundTrip(remote), snapshotOf(a));
+    expect(changedIds(merged, remote)).toHaveLength(0);
+    expect(isSameOrder(merged, remote)).toBe(true);
+  });
+});
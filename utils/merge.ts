@@ -0,0 +1,179 @@
+import { Task, TaskList, Tombstone } from '../types';
+
+// Everything the devices exchange: live tasks and lists plus the ids of deleted ones
+export interface SyncSnapshot {
+  tasks: Task[];
+  lists: TaskList[];
+  tombstones: Tombstone[];
+}
+
+export const EMPTY_SNAPSHOT: SyncSnapshot = { tasks: [], lists: [], tombstones: [] };
+
+// Tasks and lists are merged the same way: by id, field by field
+export interface SyncRecord {
+  id: string;
+  updatedAt?: number;
+  fieldUpdatedAt?: object;
+}
+
+// Bookkeeping fields that are merged separately from the record data
+const META_FIELDS = new Set(['id', 'updatedAt', 'fieldUpdatedAt']);
+
+// JSON with sorted keys, so values compare equal after a round trip through the cloud
+export const stableStringify = (value: unknown): string => {
+  if (value === undefined) return '';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(v => stableStringify(v) || 'null').join(',')}]`;
+  const entries = Object.keys(value)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+};
+
+const sameValue = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+const dataFields = (...records: (SyncRecord | undefined)[]) => {
+  const fields = new Set<string>();
+  records.forEach(record => record && Object.keys(record).forEach(key => {
+    if (!META_FIELDS.has(key)) fields.add(key);
+  }));
+  return [...fields];
+};
+
+const fieldValue = (record: SyncRecord | undefined, field: string) => (record as unknown as Record<string, unknown> | undefined)?.[field];
+const fieldStamp = (record: SyncRecord | undefined, field: string) =>
+  (record?.fieldUpdatedAt as Record<string, number> | undefined)?.[field];
+
+// Every edit since the first stamped one is stamped, so an unstamped field of a stamped record
+// is older than all of them. Only records without any field stamps fall back to `updatedAt`.
+const mergeStamp = (record: SyncRecord, field: string) =>
+  fieldStamp(record, field) ?? (record.fieldUpdatedAt ? 0 : record.updatedAt ?? 0);
+
+// Data fields whose values differ between two versions of a record
+export const diffFields = <T extends SyncRecord>(before: T | undefined, after: T): string[] =>
+  dataFields(before, after).filter(field => !sameValue(fieldValue(before, field), fieldValue(after, field)));
+
+// Stamp the fields that changed between two versions of a record.
+// Fields whose stamp already moved came from a merge and are not local edits.
+export const stampRecord = <T extends SyncRecord>(before: T | undefined, after: T, now: number): T => {
+  const edited = diffFields(before, after).filter(field => fieldStamp(before, field) === fieldStamp(after, field));
+  if (edited.length === 0) return after;
+
+  const fieldUpdatedAt: Record<string, number> = { ...after.fieldUpdatedAt };
+  edited.forEach(field => { fieldUpdatedAt[field] = now; });
+  return { ...after, updatedAt: now, fieldUpdatedAt };
+};
+
+// Stamp every local edit between two snapshots of a collection; returns `next` itself when nothing changed
+export const stampChanges = <T extends SyncRecord>(previous: T[], next: T[], now: number): T[] => {
+  const before = new Map(previous.map(t => [t.id, t]));
+  let changed = false;
+  const stamped = next.map(task => {
+    const prev = before.get(task.id);
+    if (prev === task) return task;
+    const result = stampRecord(prev, task, now);
+    if (result !== task) changed = true;
+    return result;
+  });
+  return changed ? stamped : next;
+};
+
+// Tombstones for records that disappeared and are not already known as deleted
+export const createTombstones = <T extends SyncRecord>(
+  previous: T[], next: T[], known: Tombstone[], now: number, kind?: Tombstone['kind']
+): Tombstone[] => {
+  const nextIds = new Set(next.map(t => t.id));
+  const knownIds = new Set(known.map(t => t.id));
+  return previous
+    .filter(t => !nextIds.has(t.id) && !knownIds.has(t.id))
+    .map(t => kind ? { id: t.id, deletedAt: now, kind } : { id: t.id, deletedAt: now });
+};
+
+// Field-level last-writer-wins. Ties are broken by value so both devices pick the same side.
+export const mergeRecord = <T extends SyncRecord>(a: T, b: T): T => {
+  const merged: Record<string, unknown> = { id: a.id };
+  const fieldUpdatedAt: Record<string, number> = {};
+
+  dataFields(a, b).forEach(field => {
+    const stampA = mergeStamp(a, field);
+    const stampB = mergeStamp(b, field);
+    const valueA = fieldValue(a, field);
+    const valueB = fieldValue(b, field);
+    const useB = stampB > stampA || (stampB === stampA && stableStringify(valueB) > stableStringify(valueA));
+    const value = useB ? valueB : valueA;
+    if (value !== undefined) merged[field] = value;
+    const stamp = Math.max(stampA, stampB);
+    if (stamp > 0) fieldUpdatedAt[field] = stamp;
+  });
+
+  const updatedAt = Math.max(a.updatedAt ?? 0, b.updatedAt ?? 0);
+  if (updatedAt > 0) merged.updatedAt = updatedAt;
+  if (Object.keys(fieldUpdatedAt).length > 0) merged.fieldUpdatedAt = fieldUpdatedAt;
+
+  // Keep object identity when one side already is the result, so unchanged records are not rewritten
+  const result = merged as unknown as T;
+  if (sameValue(result, a)) return a;
+  if (sameValue(result, b)) return b;
+  return result;
+};
+
+// Deletions win over edits; the earliest deletion time is kept
+export const mergeTombstones = (a: Tombstone[], b: Tombstone[]): Tombstone[] => {
+  const byId = new Map<string, Tombstone>();
+  [...a, ...b].forEach(tombstone => {
+    const existing = byId.get(tombstone.id);
+    if (!existing || tombstone.deletedAt < existing.deletedAt) byId.set(tombstone.id, tombstone);
+  });
+  return [...byId.values()].sort((x, y) => x.id.localeCompare(y.id));
+};
+
+// Merge two collections, following `primary`'s order with records only `secondary` knows appended
+export const mergeRecords = <T extends SyncRecord>(primary: T[], secondary: T[], deleted: Set<string>): T[] => {
+  const secondaryById = new Map(secondary.map(r => [r.id, r]));
+  const primaryIds = new Set(primary.map(r => r.id));
+  return [
+    ...primary.map(record => {
+      const other = secondaryById.get(record.id);
+      return other ? mergeRecord(record, other) : record;
+    }),
+    ...secondary.filter(r => !primaryIds.has(r.id)),
+  ].filter(r => !deleted.has(r.id));
+};
+
+// Merge two snapshots. The result follows `primary`'s order, with records only `secondary` knows appended.
+export const mergeSnapshots = (primary: SyncSnapshot, secondary: SyncSnapshot): SyncSnapshot => {
+  const tombstones = mergeTombstones(primary.tombstones, secondary.tombstones);
+  const deleted = new Set(tombstones.map(t => t.id));
+  return {
+    tasks: mergeRecords(primary.tasks, secondary.tasks, deleted),
+    lists: mergeRecords(primary.lists, secondary.lists, deleted),
+    tombstones,
+  };
+};
+
+// `merged` if any record differs from `current`, otherwise `current` itself (so React skips the update)
+export const keepIfUnchanged = <T>(current: T[], merged: T[]): T[] =>
+  merged.length === current.length && merged.every((r, i) => r === current[i]) ? current : merged;
+
+// Ids of tasks, lists and tombstones that differ between two snapshots
+export const changedIds = (a: SyncSnapshot, b: SyncSnapshot): string[] => {
+  const index = (snapshot: SyncSnapshot) => new Map<string, string>([
+    ...snapshot.tasks.map(t => [t.id, stableStringify(t)] as const),
+    ...snapshot.lists.map(l => [l.id, stableStringify(l)] as const),
+    ...snapshot.tombstones.map(t => [t.id, stableStringify(t)] as const),
+  ]);
+  const before = index(b);
+  const after = index(a);
+  const ids = new Set<string>();
+  after.forEach((value, id) => { if (before.get(id) !== value) ids.add(id); });
+  before.forEach((_value, id) => { if (!after.has(id)) ids.add(id); });
+  return [...ids];
+};
+
+// Both snapshots list their tasks and lists in the same order
+export const isSameOrder = (a: SyncSnapshot, b: SyncSnapshot) => {
+  const sameIds = (x: { id: string }[], y: { id: string }[]) =>
+    x.length === y.length && x.every((r, i) => r.id === y[i].id);
+  return sameIds(a.tasks, b.tasks) && sameIds(a.lists, b.lists);
+};
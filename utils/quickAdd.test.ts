@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuickAdd } from './quickAdd';
+
+// Monday, October 19 2026, 10:00 local time
+const NOW = new Date(2026, 9, 19, 10, 0);
+const parse = (text: string) => parseQuickAdd(text, NOW);
+
+describe('parseQuickAdd', () => {
+  describe('relative dates', () => {
+    it.each([
+      ['today', '2026-10-19'],
+      ['tomorrow', '2026-10-20'],
+      ['day after tomorrow', '2026-10-21'],
+      ['in 3 days', '2026-10-22'],
+      ['in a week', '2026-10-26'],
+    ])('reads "%s"', (phrase, date) => {
+      expect(parse(`Water plants ${phrase}`)).toMatchObject({ title: 'Water plants', date });
+    });
+
+    it('reads "in 2 hours" as a date and a time', () => {
+      expect(parse('Check oven in 2 hours')).toMatchObject({ title: 'Check oven', date: '2026-10-19', time: '12:00' });
+    });
+
+    it('moves "in 30 min" past midnight to the next day', () => {
+      const result = parseQuickAdd('Stretch in 30 min', new Date(2026, 9, 19, 23, 45));
+      expect(result).toMatchObject({ date: '2026-10-20', time: '00:15' });
+    });
+  });
+
+  describe('weekdays', () => {
+    it('reads a weekday as the next one', () => {
+      expect(parse('Pay rent on friday')).toMatchObject({ title: 'Pay rent', date: '2026-10-23' });
+    });
+
+    it('reads the current weekday as next week', () => {
+      expect(parse('Team sync monday')).toMatchObject({ date: '2026-10-26' });
+    });
+
+    it('drops the connector before a removed phrase', () => {
+      expect(parse('Pay rent by friday')).toMatchObject({ title: 'Pay rent', date: '2026-10-23' });
+    });
+
+    it('reads an abbreviation only after "on", "next" or "this"', () => {
+      expect(parse('Pay rent on fri')).toMatchObject({ title: 'Pay rent', date: '2026-10-23' });
+      expect(parse('Team sync next wed')).toMatchObject({ title: 'Team sync', date: '2026-10-21' });
+    });
+
+    it.each(['Enjoy the sun', 'Fix sat dish', 'Email Wed team'])('leaves "%s" alone', text => {
+      expect(parse(text)).toEqual({ title: text, tags: [] });
+    });
+  });
+
+  describe('times', () => {
+    it.each([
+      ['3pm', '15:00'],
+      ['at 3:30 pm', '15:30'],
+      ['12am', '00:00'],
+      ['12pm', '12:00'],
+      ['15:45', '15:45'],
+      ['at 17', '17:00'],
+      ['noon', '12:00'],
+    ])('reads "%s"', (phrase, time) => {
+      expect(parse(`Call mom ${phrase}`)).toMatchObject({ title: 'Call mom', time });
+    });
+
+    it('puts a time that has passed today on tomorrow', () => {
+      expect(parse('Call mom 9am')).toMatchObject({ date: '2026-10-20', time: '09:00' });
+      expect(parse('Call mom 11am')).toMatchObject({ date: '2026-10-19', time: '11:00' });
+    });
+
+    it('leaves a number inside the title alone', () => {
+      const result = parse('look at 3 items');
+      expect(result.title).toBe('look at 3 items');
+      expect(result.time).toBeUndefined();
+    });
+  });
+
+  describe('titles', () => {
+    it('keeps title words that look like connectors', () => {
+      expect(parse('Log in tomorrow')).toMatchObject({ title: 'Log in', date: '2026-10-20' });
+      expect(parse('Check in at 5pm')).toMatchObject({ title: 'Check in', time: '17:00' });
+    });
+
+    it('takes priority and tags out of the title', () => {
+      expect(parse('Call dentist !high #Personal #health')).toEqual({ title: 'Call dentist', priority: 'high', tags: ['personal', 'health'] });
+    });
+  });
+
+  describe('recurrence', () => {
+    it('starts a weekly rule on its next day once today\'s time has passed', () => {
+      expect(parse('standup every monday 9am')).toMatchObject({
+        title: 'standup',
+        date: '2026-10-26',
+        time: '09:00',
+        recurrence: { freq: 'weekly', interval: 1, byWeekday: [1] },
+      });
+      expect(parse('standup every monday 11am')).toMatchObject({ date: '2026-10-19' });
+    });
+
+    it('rolls a daily rule forward the same way', () => {
+      expect(parse('gym every day 7am')).toMatchObject({ date: '2026-10-20', recurrence: { freq: 'daily', interval: 1 } });
+    });
+
+    it('moves an explicit date onto the first day of the rule', () => {
+      expect(parse('Call dentist tomorrow 3pm !high #personal every monday')).toMatchObject({
+        title: 'Call dentist',
+        date: '2026-10-26',
+        time: '15:00',
+        priority: 'high',
+        tags: ['personal'],
+        recurrence: { freq: 'weekly', byWeekday: [1] },
+      });
+    });
+
+    it('reads intervals and weekday lists', () => {
+      expect(parse('Backup every 2 weeks').recurrence).toEqual({ freq: 'weekly', interval: 2, byWeekday: [1] });
+      expect(parse('Run every tuesday and thursday').recurrence).toEqual({ freq: 'weekly', interval: 1, byWeekday: [2, 4] });
+      expect(parse('Report every weekday 8am')).toMatchObject({ date: '2026-10-20' });
+    });
+  });
+});
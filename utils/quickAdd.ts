@@ -0,0 +1,220 @@
+// Natural-language parsing for the quick add field, e.g.
+// "Call dentist tomorrow 3pm !high #personal every monday".
+// Recognized phrases are removed from the text; what remains is the title.
+
+import { Priority, RecurrenceRule } from '../types';
+import { addDays, formatDate, formatTime } from './date';
+import { normalizeTag } from './filters';
+
+export interface QuickAddResult {
+  title: string;
+  date?: string; // "YYYY-MM-DD"
+  time?: string; // "HH:mm"
+  priority?: Priority;
+  tags: string[];
+  recurrence?: RecurrenceRule;
+}
+
+export type QuickAddField = 'date' | 'time' | 'priority' | 'tags' | 'recurrence';
+
+const WEEKDAY_PATTERN = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues|tue|wed|thurs|thur|thu|fri|sat)';
+// Abbreviations are also words ("enjoy the sun"), so a weekday without "on", "next" or "this" must be spelled out
+const WEEKDAY_NAME_PATTERN = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+const WEEKDAY_PREFIXES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTH_PATTERN = '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)\\.?';
+const MONTH_PREFIXES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const PRIORITIES: Record<string, Priority> = {
+  high: 'high', h: 'high', '1': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium',
+  low: 'low', l: 'low', '3': 'low',
+};
+
+const FREQUENCIES: Record<string, RecurrenceRule['freq']> = {
+  day: 'daily', daily: 'daily',
+  week: 'weekly', weekly: 'weekly',
+  month: 'monthly', monthly: 'monthly',
+  year: 'yearly', yearly: 'yearly', annually: 'yearly',
+};
+
+const weekdayIndex = (name: string) => WEEKDAY_PREFIXES.indexOf(name.slice(0, 3).toLowerCase());
+
+const parseCount = (value: string) => /^(a|an|one)$/i.test(value) ? 1 : parseInt(value, 10);
+
+// First date on or after `from` (or strictly after, with `skipToday`) that falls on the weekday
+const nextWeekday = (from: Date, weekday: number, skipToday: boolean) => {
+  const days = (weekday - from.getDay() + 7) % 7;
+  return addDays(from, days === 0 && skipToday ? 7 : days);
+};
+
+// "Jan 5" without a year means the next Jan 5 from today
+const upcomingDate = (today: Date, month: number, day: number, year?: number) => {
+  const date = new Date(year ?? today.getFullYear(), month, day);
+  if (year === undefined && date < today) date.setFullYear(date.getFullYear() + 1);
+  return date.getMonth() === month ? date : null; // Rejects e.g. Feb 31
+};
+
+const to24Hour = (hours: number, meridiem: string) => {
+  const pm = meridiem.toLowerCase() === 'p';
+  if (hours === 12) return pm ? 12 : 0;
+  return pm ? hours + 12 : hours;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Stands in for a removed phrase, so connecting words can be told apart from title words
+const GAP = '\u0000';
+
+const isPast = (date: Date, time: string | undefined, now: Date) => {
+  if (!time) return false;
+  const [h, m] = time.split(':').map(Number);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), h, m).getTime() <= now.getTime();
+};
+
+// First day on or after `from` that falls on one of the weekdays, skipping a day whose time has passed
+const firstMatchingDay = (from: Date, weekdays: number[], time: string | undefined, now: Date) => {
+  for (let i = 0; i <= 7; i++) {
+    const day = addDays(from, i);
+    if (weekdays.includes(day.getDay()) && !isPast(day, time, now)) return day;
+  }
+  return from;
+};
+
+// Fields in `ignore` are not parsed, so their phrases stay in the title
+export const parseQuickAdd = (text: string, now = new Date(), ignore: QuickAddField[] = []): QuickAddResult => {
+  let rest = ` ${text} `;
+  const parses = (field: QuickAddField) => !ignore.includes(field);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  // Remove the first match from the remaining text
+  const take = (pattern: RegExp) => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.slice(0, match.index) + ` ${GAP} ` + rest.slice(match.index! + match[0].length);
+    return match;
+  };
+
+  const result: QuickAddResult = { title: '', tags: [] };
+  let date: Date | undefined;
+  let time: string | undefined;
+
+  // !high, !med, !low or !1 - !3
+  const priority = parses('priority') && take(/(?<!\S)!(high|medium|med|low|h|m|l|1|2|3)(?!\S)/i);
+  if (priority) result.priority = PRIORITIES[priority[1].toLowerCase()];
+
+  // #tags
+  const TAG = /(?<!\S)#([\p{L}\p{N}_-]+)/u;
+  for (let tag = parses('tags') && take(TAG); tag; tag = take(TAG)) {
+    const normalized = normalizeTag(tag[1]);
+    if (!result.tags.includes(normalized)) result.tags.push(normalized);
+  }
+
+  // Recurrence: "every weekday", "every monday and thursday", "every 2 weeks", "every other day", "daily"
+  if (!parses('recurrence')) {
+    // Leave "every ..." in the title
+  } else if (take(/\bevery\s+weekday\b/i)) {
+    result.recurrence = { freq: 'weekly', interval: 1, byWeekday: [1, 2, 3, 4, 5] };
+  } else {
+    const days = take(new RegExp(`\\bevery\\s+${WEEKDAY_PATTERN}(?:(?:\\s*,\\s*|\\s+and\\s+|\\s*,\\s*and\\s+)${WEEKDAY_PATTERN})*\\b`, 'i'));
+    if (days) {
+      const weekdays = [...new Set(days[0].match(new RegExp(`\\b${WEEKDAY_PATTERN}\\b`, 'gi'))!.map(weekdayIndex))].sort();
+      result.recurrence = { freq: 'weekly', interval: 1, byWeekday: weekdays };
+    } else {
+      const every = take(/\bevery\s+(other\s+|\d+\s+)?(day|week|month|year)s?\b/i) || take(/\b(daily|weekly|monthly|yearly|annually)\b/i);
+      if (every) {
+        const interval = every[2] ? (/other/i.test(every[1] || '') ? 2 : parseInt(every[1] || '1', 10)) : 1;
+        result.recurrence = { freq: FREQUENCIES[(every[2] || every[1]).toLowerCase()], interval: Math.max(1, interval) };
+      }
+    }
+  }
+
+  // "in 2 hours", "in 30 min", "in 3 days", "in a week"
+  const RELATIVE = /\bin\s+(\d+|an?|one)\s+(minutes?|mins?|hours?|hrs?|days?|weeks?)\b/i;
+  const relative = parses('date') ? rest.match(RELATIVE) : null;
+  const isClockTime = !!relative && /^[mh]/i.test(relative[2]);
+  if (relative && (!isClockTime || parses('time'))) {
+    take(RELATIVE);
+    const amount = parseCount(relative[1]);
+    const unit = relative[2].toLowerCase();
+    if (isClockTime) {
+      const at = new Date(now.getTime() + amount * (unit.startsWith('h') ? 60 : 1) * 60000);
+      date = at;
+      time = formatTime(at);
+    } else {
+      date = addDays(today, amount * (unit.startsWith('w') ? 7 : 1));
+    }
+  }
+
+  // Dates
+  if (!date && parses('date')) {
+    let match: RegExpMatchArray | null;
+    if (take(/\bday\s+after\s+tomorrow\b/i)) {
+      date = addDays(today, 2);
+    } else if ((match = take(/\b(today|tonight)\b/i))) {
+      date = today;
+      if (match[1].toLowerCase() === 'tonight' && parses('time')) time = '20:00';
+    } else if (take(/\b(tomorrow|tmrw|tmr)\b/i)) {
+      date = addDays(today, 1);
+    } else if ((match = take(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/))) {
+      date = upcomingDate(today, Number(match[2]) - 1, Number(match[3]), Number(match[1])) || undefined;
+    } else if ((match = take(new RegExp(`\\b(?:on\\s+)?${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'i')))) {
+      date = upcomingDate(today, MONTH_PREFIXES.indexOf(match[1].slice(0, 3).toLowerCase()), Number(match[2]), match[3] ? Number(match[3]) : undefined) || undefined;
+    } else if ((match = take(new RegExp(`\\b(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?\\b`, 'i')))) {
+      date = upcomingDate(today, MONTH_PREFIXES.indexOf(match[2].slice(0, 3).toLowerCase()), Number(match[1]), match[3] ? Number(match[3]) : undefined) || undefined;
+    } else if ((match = take(new RegExp(`\\b(?:(?:on|next|this)\\s+${WEEKDAY_PATTERN}|${WEEKDAY_NAME_PATTERN})\\b`, 'i')))) {
+      // A bare weekday is always in the future; "monday" typed on a Monday means next week
+      date = nextWeekday(today, weekdayIndex(match[1] || match[2]), true);
+    }
+  }
+
+  // Times: "3pm", "at 3:30 pm", "15:00", "at 15", "noon", "midnight"
+  if (!time && parses('time')) {
+    let match: RegExpMatchArray | null;
+    if ((match = take(/(?<!\S)(?:at\s+)?(1[0-2]|0?[1-9])(?::([0-5]\d))?\s*([ap])\.?m\.?(?!\w)/i))) {
+      time = `${pad(to24Hour(Number(match[1]), match[3]))}:${match[2] || '00'}`;
+    } else if ((match = take(/(?<!\S)(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)(?!\w)/))) {
+      time = `${pad(Number(match[1]))}:${match[2]}`;
+    } else if ((match = take(/\bat\s+([01]?\d|2[0-3])(?=\s*(?:\u0000|$))/i))) {
+      // A bare hour only at the end of the phrase: "call mom at 5", not "look at 3 items"
+      time = `${pad(Number(match[1]))}:00`;
+    } else if ((match = take(/\b(?:at\s+)?(noon|midday|midnight)\b/i))) {
+      time = match[1].toLowerCase() === 'midnight' ? '00:00' : '12:00';
+    }
+  }
+
+  // A weekly rule starts on its first matching day, and not today once the time has passed;
+  // a time alone means its next occurrence
+  const ruleDays = result.recurrence?.byWeekday;
+  if (!parses('date')) {
+    // Nothing to infer
+  } else if (ruleDays) {
+    date = firstMatchingDay(date || today, ruleDays, time, now);
+  } else if (date) {
+    // Nothing to infer
+  } else if (time) {
+    const [h, m] = time.split(':').map(Number);
+    const due = new Date(today.getFullYear(), today.getMonth(), today.getDate(), h, m);
+    date = due.getTime() <= now.getTime() ? addDays(today, 1) : today;
+  } else if (result.recurrence) {
+    date = today;
+  }
+
+  if (date) result.date = formatDate(date);
+  if (time) result.time = time;
+
+  // Anchor weekly and monthly rules on the resolved date, like the recurrence editor does
+  if (result.recurrence && date) {
+    if (result.recurrence.freq === 'weekly' && !result.recurrence.byWeekday) {
+      result.recurrence.byWeekday = [date.getDay()];
+    } else if (result.recurrence.freq === 'monthly') {
+      result.recurrence.byMonthDay = date.getDate();
+    }
+  }
+
+  // Drop connecting words that led into a removed phrase, e.g. "pay rent by friday"
+  result.title = rest
+    .replace(/(?<!\S)(?:at|on|by|due)\s+(?=\u0000)/gi, '')
+    .replace(/\u0000/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return result;
+};
@@ -0,0 +1,124 @@
+// Quiet hours (weekly windows) and manual Do Not Disturb. While either is on, alarms follow
+// the quiet hours policy instead of ringing.
+
+import { AppSettings, Priority, QuietHoursPolicy, QuietHoursWindow, Task } from '../types';
+import { ScheduleEntry } from './scheduler';
+
+export const DND_DURATIONS = [
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 2 * 60, label: '2 hours' },
+  { minutes: 4 * 60, label: '4 hours' },
+  { minutes: 8 * 60, label: '8 hours' },
+];
+
+export const QUIET_HOURS_POLICIES: { id: QuietHoursPolicy; label: string; description: string }[] = [
+  { id: 'silent', label: 'Silent', description: 'Notify without sound' },
+  { id: 'defer', label: 'Defer', description: 'Ring when quiet hours end' },
+  { id: 'high-priority', label: 'High Priority Rings', description: 'Others notify without sound' },
+];
+
+// A new window: every night from 22:00 to 07:00
+export const createQuietHoursWindow = (): QuietHoursWindow => ({
+  id: crypto.randomUUID(),
+  days: [0, 1, 2, 3, 4, 5, 6],
+  start: '22:00',
+  end: '07:00',
+});
+
+type QuietSettings = Pick<AppSettings, 'quietHours' | 'quietHoursPolicy' | 'dndUntil'>;
+
+const DAY_MINUTES = 24 * 60;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// End of the window's occurrence that contains `at`, if any. Occurrences that cross
+// midnight belong to the day they started on.
+const getWindowEnd = (window: QuietHoursWindow, at: number): number | null => {
+  const date = new Date(at);
+  const start = toMinutes(window.start);
+  // The same start and end time means the whole day
+  const length = (toMinutes(window.end) - start + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES;
+
+  for (const offset of [0, -1]) {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+    if (!window.days.includes(day.getDay())) continue;
+    const from = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, start).getTime();
+    const to = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, start + length).getTime();
+    if (at >= from && at < to) return to;
+  }
+  return null;
+};
+
+export interface QuietStatus {
+  until: number;
+  manual: boolean; // Do Not Disturb is on, not just a quiet hours window
+}
+
+// Whether alarms are quiet at `at`, and until when. Back-to-back windows and Do Not Disturb
+// count as one stretch.
+export const getQuietStatus = (settings: QuietSettings, at: number): QuietStatus | null => {
+  let until = at;
+  // Bounded, since windows covering the whole week never end
+  for (let i = 0; i < 14; i++) {
+    const ends = settings.quietHours
+      .map(window => getWindowEnd(window, until))
+      .filter((end): end is number => end !== null);
+    if (settings.dndUntil && settings.dndUntil > until) ends.push(settings.dndUntil);
+    const next = Math.max(until, ...ends);
+    if (next === until) break;
+    until = next;
+  }
+  return until > at ? { until, manual: !!settings.dndUntil && settings.dndUntil > at } : null;
+};
+
+export type QuietAction = 'ring' | 'silent' | 'defer';
+
+// What an alarm of the given priority does at `at`
+export const getQuietAction = (settings: QuietSettings, priority: Priority, at: number): QuietAction => {
+  if (!getQuietStatus(settings, at)) return 'ring';
+  switch (settings.quietHoursPolicy) {
+    case 'defer':
+      return 'defer';
+    case 'high-priority':
+      return priority === 'high' ? 'ring' : 'silent';
+    default:
+      return 'silent';
+  }
+};
+
+// When a deferred alarm should ring instead, or null if it is not deferred
+export const getDeferUntil = (settings: QuietSettings, priority: Priority, at: number): number | null => {
+  return getQuietAction(settings, priority, at) === 'defer' ? getQuietStatus(settings, at)!.until : null;
+};
+
+// Deferred alarms follow changes to quiet hours, e.g. Do Not Disturb turned off early
+export const retimeDeferredTasks = (tasks: Task[], settings: QuietSettings, now: number): Task[] => {
+  let changed = false;
+  const updated = tasks.map(task => {
+    if (task.completed || !task.quietDeferred || !task.snoozedUntil || task.snoozedUntil <= now) return task;
+    const until = getDeferUntil(settings, task.priority, now) ?? now;
+    if (until === task.snoozedUntil) return task;
+    changed = true;
+    return { ...task, snoozedUntil: until };
+  });
+  return changed ? updated : tasks;
+};
+
+// The service worker's schedule with quiet hours applied: deferred alerts move to the end of
+// quiet hours, where the due alert replaces the reminders before it, and silent ones are marked
+export const applyQuietHoursToSchedule = (entries: ScheduleEntry[], settings: QuietSettings): ScheduleEntry[] => {
+  return entries.flatMap(entry => {
+    const action = getQuietAction(settings, entry.priority, entry.at);
+    if (action === 'silent') return [{ ...entry, silent: true }];
+    if (action === 'ring') return [entry];
+
+    const until = getQuietStatus(settings, entry.at)!.until;
+    const dueAt = entry.at + entry.leadMinutes * 60 * 1000;
+    if (entry.leadMinutes > 0 && dueAt <= until) return [];
+    return [{ ...entry, key: `${entry.taskId}@${until}:${entry.leadMinutes}`, at: until }];
+  }).sort((a, b) => a.at - b.at);
+};
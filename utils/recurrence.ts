@@ -0,0 +1,171 @@
+import { RecurrenceRule, Task } from '../types';
+import { resetReminders } from './reminders';
+import { resetSubtasks } from './subtasks';
+import { addDays, formatDate, formatShortDate, getDaysInMonth, parseDate, WEEKDAY_SHORT } from './date';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th'];
+
+const startOfWeek = (d: Date) => addDays(new Date(d.getFullYear(), d.getMonth(), d.getDate()), -d.getDay());
+
+const weeksBetween = (a: Date, b: Date) => {
+  return Math.round((startOfWeek(b).getTime() - startOfWeek(a).getTime()) / (7 * 24 * 60 * 60 * 1000));
+};
+
+// Day of month of the nth weekday in a month (n = -1 for the last one).
+// Falls back to the last matching weekday when the month has no nth occurrence.
+const getNthWeekdayOfMonth = (year: number, month: number, n: number, weekday: number) => {
+  const daysInMonth = getDaysInMonth(year, month);
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+  let lastMatch = firstMatch;
+  while (lastMatch + 7 <= daysInMonth) lastMatch += 7;
+
+  if (n < 0) return lastMatch;
+  return Math.min(firstMatch + (n - 1) * 7, lastMatch);
+};
+
+export const isWeekdaysRule = (rule: RecurrenceRule) => {
+  return rule.freq === 'weekly' && rule.interval === 1 && !!rule.byWeekday && rule.byWeekday.length === WEEKDAYS.length && WEEKDAYS.every(d => rule.byWeekday!.includes(d));
+};
+
+// Occurrence of the month's weekday for a date, used to build "nth weekday" rules
+export const getNthWeekday = (date: string) => {
+  const d = parseDate(date);
+  const n = Math.ceil(d.getDate() / 7);
+  return { n: n === 5 ? -1 : n, weekday: d.getDay() };
+};
+
+// Whether no later day of the month falls on the same weekday
+export const isLastWeekdayOfMonth = (date: string) => {
+  const d = parseDate(date);
+  return d.getDate() + 7 > getDaysInMonth(d.getFullYear(), d.getMonth());
+};
+
+// Monthly and yearly rules without a day keep the series' day, so a clamped
+// occurrence (Jan 31 -> Feb 28) does not move every later one
+export const anchorMonthDay = (rule: RecurrenceRule, date: string): RecurrenceRule => {
+  if ((rule.freq !== 'monthly' && rule.freq !== 'yearly') || rule.byMonthDay || rule.byNthWeekday) return rule;
+  return { ...rule, byMonthDay: parseDate(date).getDate() };
+};
+
+// Date of the occurrence following `date` (ignores count/until limits)
+const getFollowingDate = (rule: RecurrenceRule, date: string): Date => {
+  const current = parseDate(date);
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.freq) {
+    case 'daily':
+      return addDays(current, interval);
+
+    case 'weekly': {
+      const days = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [current.getDay()];
+      // Walk forward until we hit a selected weekday in a week that matches the interval
+      for (let i = 1; i <= 7 * (interval + 1); i++) {
+        const candidate = addDays(current, i);
+        if (days.includes(candidate.getDay()) && weeksBetween(current, candidate) % interval === 0) {
+          return candidate;
+        }
+      }
+      return addDays(current, 7 * interval);
+    }
+
+    case 'monthly': {
+      const target = new Date(current.getFullYear(), current.getMonth() + interval, 1);
+      const year = target.getFullYear();
+      const month = target.getMonth();
+      if (rule.byNthWeekday) {
+        const { n, weekday } = rule.byNthWeekday;
+        return new Date(year, month, getNthWeekdayOfMonth(year, month, n, weekday));
+      }
+      const day = rule.byMonthDay || current.getDate();
+      return new Date(year, month, Math.min(day, getDaysInMonth(year, month)));
+    }
+
+    case 'yearly':
+    default: {
+      const year = current.getFullYear() + interval;
+      const day = rule.byMonthDay || current.getDate();
+      return new Date(year, current.getMonth(), Math.min(day, getDaysInMonth(year, current.getMonth())));
+    }
+  }
+};
+
+// Next due date of a recurring task, or null when the series has ended
+export const getNextOccurrenceDate = (task: Task): string | null => {
+  const rule = task.recurrence;
+  if (!rule) return null;
+
+  const occurrence = task.occurrence || 1;
+  if (rule.count && occurrence >= rule.count) return null;
+
+  const next = formatDate(getFollowingDate(rule, task.date));
+  if (rule.until && next > rule.until) return null;
+
+  return next;
+};
+
+// Move a recurring task to its next occurrence. Returns null when the series has ended.
+export const advanceRecurringTask = (task: Task): Task | null => {
+  const recurrence = task.recurrence && anchorMonthDay(task.recurrence, task.date);
+  const nextDate = getNextOccurrenceDate({ ...task, recurrence });
+  if (!nextDate) return null;
+
+  return {
+    ...task,
+    recurrence,
+    date: nextDate,
+    occurrence: (task.occurrence || 1) + 1,
+    completed: false,
+    notified: false,
+    reminders: resetReminders(task.reminders),
+    subtasks: resetSubtasks(task.subtasks),
+  };
+};
+
+// Completing a recurring occurrence advances the series; the last one (or a plain task) is marked done
+export const completeTask = (task: Task): Task => {
+  if (task.recurrence) {
+    const next = advanceRecurringTask(task);
+    if (next) return next;
+  }
+  return { ...task, completed: true };
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let text: string;
+
+  switch (rule.freq) {
+    case 'daily':
+      text = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekly':
+      if (isWeekdaysRule(rule)) {
+        text = 'Weekdays';
+      } else {
+        text = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+        if (rule.byWeekday && rule.byWeekday.length > 0) {
+          text += ' on ' + [...rule.byWeekday].sort().map(d => WEEKDAY_SHORT[d]).join(', ');
+        }
+      }
+      break;
+    case 'monthly':
+      text = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+      if (rule.byNthWeekday) {
+        const { n, weekday } = rule.byNthWeekday;
+        text += ` on the ${n < 0 ? 'last' : ORDINALS[n - 1]} ${WEEKDAY_SHORT[weekday]}`;
+      } else if (rule.byMonthDay) {
+        text += ` on day ${rule.byMonthDay}`;
+      }
+      break;
+    case 'yearly':
+    default:
+      text = interval === 1 ? 'Yearly' : `Every ${interval} years`;
+      break;
+  }
+
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${formatShortDate(rule.until)}`;
+  return text;
+};
@@ -0,0 +1,48 @@
+import { Task, TaskReminder } from '../types';
+import { getDueTimestamp } from './date';
+
+// Lead times offered in the pickers, in minutes
+export const REMINDER_PRESETS = [5, 10, 15, 30, 60, 120, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+
+const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+
+// e.g. 10 -> "10 minutes", 90 -> "1 hour 30 minutes", 1440 -> "1 day"
+export const formatLeadTime = (minutes: number) => {
+  if (minutes >= 7 * 24 * 60 && minutes % (7 * 24 * 60) === 0) return plural(minutes / (7 * 24 * 60), 'week');
+  if (minutes >= 24 * 60 && minutes % (24 * 60) === 0) return plural(minutes / (24 * 60), 'day');
+  if (minutes >= 60) {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest ? `${plural(hours, 'hour')} ${plural(rest, 'minute')}` : plural(hours, 'hour');
+  }
+  return plural(minutes, 'minute');
+};
+
+// Compact label for chips, e.g. "10m", "2h", "1d"
+export const formatLeadTimeShort = (minutes: number) => {
+  if (minutes % (7 * 24 * 60) === 0) return `${minutes / (7 * 24 * 60)}w`;
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+};
+
+export const createReminders = (offsets: number[]): TaskReminder[] => {
+  return [...new Set(offsets)].sort((a, b) => b - a).map(offsetMinutes => ({ offsetMinutes }));
+};
+
+// Keep the fired state of offsets that did not change
+export const updateReminderOffsets = (current: TaskReminder[] | undefined, offsets: number[]): TaskReminder[] => {
+  return createReminders(offsets).map(r => current?.find(c => c.offsetMinutes === r.offsetMinutes) || r);
+};
+
+// Re-arm every reminder, e.g. when a task is rescheduled or a recurrence advances
+export const resetReminders = (reminders: TaskReminder[] | undefined) => {
+  return reminders?.map(r => ({ offsetMinutes: r.offsetMinutes }));
+};
+
+// Earliest moment the task needs attention: its longest advance reminder, or the due time itself
+export const getFirstAlertTime = (task: Task) => {
+  const due = getDueTimestamp(task.date, task.time);
+  const maxOffset = Math.max(0, ...(task.reminders || []).map(r => r.offsetMinutes));
+  return due - maxOffset * 60 * 1000;
+};
@@ -0,0 +1,197 @@
+import { Priority, Task } from '../types';
+import { getDueTimestamp } from './date';
+import { advanceRecurringTask, completeTask } from './recurrence';
+import { getFirstAlertTime } from './reminders';
+import { getMeetingUrl } from './links';
+
+// Reminders that became due less than this long ago still ring; older ones are reported as missed
+export const MISSED_GRACE_MS = 2 * 60 * 1000;
+
+const LAST_TICK_KEY = 'windo-last-tick';
+
+export interface SchedulerAlert {
+  task: Task;
+  leadMinutes: number; // 0 when the task itself is due, otherwise an advance reminder
+}
+
+export interface SchedulerTickResult {
+  tasks: Task[];
+  due: SchedulerAlert[]; // Should ring now
+  missed: Task[]; // Became due while the app was closed, asleep or throttled
+  changed: boolean;
+}
+
+export const loadLastTick = (): number => {
+  const saved = Number(localStorage.getItem(LAST_TICK_KEY));
+  return saved > 0 ? saved : Date.now();
+};
+
+export const saveLastTick = (timestamp: number) => {
+  localStorage.setItem(LAST_TICK_KEY, String(timestamp));
+};
+
+// Skip a recurring task that already rang forward to its latest occurrence whose first alert is due by `now`
+const catchUpRecurrence = (task: Task, now: number): Task => {
+  if (!task.recurrence || !task.notified) return task;
+
+  let current = task;
+  let next = advanceRecurringTask(current);
+  while (next && getFirstAlertTime(next) <= now) {
+    current = next;
+    next = advanceRecurringTask(current);
+  }
+  return current;
+};
+
+// Quiet hours hold an alert back like a snooze, marked so it can move when they change
+const deferTask = (task: Task, until: number): Task => ({ ...task, snoozedUntil: until, quietDeferred: true });
+
+// Compare every task's due time against the window since the previous tick.
+// Anything that fell into the window fires, no matter how long the window was.
+// Alerts of tasks that `deferUntil` returns a time for are held back until then.
+export const runSchedulerTick = (
+  tasks: Task[],
+  lastTick: number,
+  now: number,
+  autoComplete: boolean,
+  deferUntil: (task: Task) => number | null = () => null,
+): SchedulerTickResult => {
+  const due: SchedulerAlert[] = [];
+  const missed: Task[] = [];
+  let changed = false;
+
+  const updated = tasks.map(original => {
+    if (original.completed) return original;
+
+    let task = original;
+    let dueAt: number | null = null;
+
+    if (task.snoozedUntil) {
+      if (task.snoozedUntil > now) return original;
+      dueAt = task.snoozedUntil;
+      task = { ...task, snoozedUntil: undefined, quietDeferred: undefined };
+
+      // Held back (again) unless it is already missed
+      const until = now - dueAt <= MISSED_GRACE_MS ? deferUntil(task) : null;
+      if (until) {
+        changed = true;
+        return deferTask(task, until);
+      }
+
+      // A snoozed advance reminder rings again but keeps the due-time alarm armed
+      const taskDue = getDueTimestamp(task.date, task.time);
+      if (!task.notified && taskDue > now) {
+        changed = true;
+        if (now - dueAt <= MISSED_GRACE_MS) {
+          due.push({ task, leadMinutes: Math.ceil((taskDue - now) / (60 * 1000)) });
+        }
+        return task;
+      }
+    } else {
+      task = catchUpRecurrence(task, now);
+      if (task.notified) return original;
+
+      const taskDue = getDueTimestamp(task.date, task.time);
+      // Advanced recurrences may land before lastTick if the app was closed for a while
+      const isDue = taskDue <= now && (taskDue > lastTick || task !== original);
+
+      // Advance reminders ahead of the due time. Stale ones are skipped silently.
+      let reminderLead: number | null = null;
+      if (task.reminders && task.reminders.some(r => !r.fired)) {
+        let hasFired = false;
+        const reminders = task.reminders.map(reminder => {
+          const at = taskDue - reminder.offsetMinutes * 60 * 1000;
+          if (reminder.fired || at > now || (at <= lastTick && task === original)) return reminder;
+          hasFired = true;
+          if (now - at <= MISSED_GRACE_MS && (reminderLead === null || reminder.offsetMinutes < reminderLead)) {
+            reminderLead = reminder.offsetMinutes;
+          }
+          return { ...reminder, fired: true };
+        });
+        if (hasFired) task = { ...task, reminders };
+      }
+
+      if (!isDue) {
+        if (task === original) return original;
+        changed = true;
+        if (reminderLead !== null) {
+          // The deferred reminder rings with the lead time left when it is released
+          const until = deferUntil(task);
+          if (until) return deferTask(task, until);
+          due.push({ task, leadMinutes: reminderLead });
+        }
+        return task;
+      }
+      dueAt = taskDue;
+    }
+
+    changed = true;
+    const fired: Task = { ...task, notified: true };
+
+    if (now - dueAt > MISSED_GRACE_MS) {
+      missed.push(fired);
+      return fired;
+    }
+
+    const until = deferUntil(task);
+    if (until) return deferTask(task, until);
+
+    due.push({ task: fired, leadMinutes: 0 });
+    // Recurring tasks advance straight to their next occurrence
+    return autoComplete ? completeTask(fired) : fired;
+  });
+
+  return { tasks: changed ? updated : tasks, due, missed, changed };
+};
+
+// A single upcoming alert, precomputed for the service worker which cannot run the scheduler itself
+export interface ScheduleEntry {
+  key: string;
+  taskId: string;
+  title: string;
+  date: string; // Occurrence date, lets the app match alerts of recurring tasks
+  at: number;
+  leadMinutes: number;
+  priority: Priority;
+  url?: string; // Meeting link, offered as a notification action
+  silent?: boolean; // During quiet hours
+}
+
+const MAX_OCCURRENCES_PER_TASK = 50;
+
+// Expand due times, advance reminders, snoozes and recurrences into a flat list of alerts within the horizon
+export const buildSchedule = (tasks: Task[], now: number, horizonMs = 7 * 24 * 60 * 60 * 1000): ScheduleEntry[] => {
+  const end = now + horizonMs;
+  const entries: ScheduleEntry[] = [];
+
+  const add = (task: Task, at: number, leadMinutes: number) => {
+    if (at <= now || at > end) return;
+    const url = getMeetingUrl(task);
+    entries.push({ key: `${task.id}@${at}:${leadMinutes}`, taskId: task.id, title: task.title, date: task.date, at, leadMinutes, priority: task.priority, ...(url ? { url } : {}) });
+  };
+
+  tasks.forEach(task => {
+    if (task.completed) return;
+
+    if (task.snoozedUntil) {
+      add(task, task.snoozedUntil, 0);
+      return;
+    }
+
+    let current: Task | null = task;
+    for (let i = 0; current && i < MAX_OCCURRENCES_PER_TASK; i++) {
+      if (!current.notified) {
+        const due = getDueTimestamp(current.date, current.time);
+        current.reminders?.forEach(r => {
+          if (!r.fired) add(current!, due - r.offsetMinutes * 60 * 1000, r.offsetMinutes);
+        });
+        add(current, due, 0);
+      }
+
+      const next: Task | null = current.recurrence ? advanceRecurringTask(current) : null;
+      current = next && getFirstAlertTime(next) <= end ? next : null;
+    }
+  });
+
+  return entries.sort((a, b) => a.at - b.at);
+};
@@ -0,0 +1,48 @@
+// Checks for settings read from storage or a backup file, which may be old, edited or malformed
+
+import { AppSettings } from '../types';
+import { SOUND_LABELS } from './sounds';
+import { QUIET_HOURS_POLICIES } from './quietHours';
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isObject: Check = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const orNull = (check: Check): Check => value => value === null || check(value);
+const oneOf = (values: readonly unknown[]): Check => value => values.includes(value);
+
+const SETTING_CHECKS: Record<keyof AppSettings, Check> = {
+  theme: oneOf(['light', 'dark']),
+  autoComplete: isBoolean,
+  completeWithSubtasks: isBoolean,
+  soundMode: oneOf(Object.keys(SOUND_LABELS)),
+  customSoundId: orNull(isString),
+  customSoundName: orNull(isString),
+  volume: isNumber,
+  audioDuration: isNumber,
+  audioLoop: isBoolean,
+  audioEscalate: isBoolean,
+  voiceURI: orNull(isString),
+  ttsLanguage: isString,
+  ttsTemplate: isString,
+  ttsReminderTemplate: isString,
+  ttsRate: isNumber,
+  ttsPitch: isNumber,
+  prioritySounds: isObject,
+  quietHours: Array.isArray,
+  quietHoursPolicy: oneOf(QUIET_HOURS_POLICIES.map(p => p.id)),
+  dndUntil: orNull(isNumber),
+  syncProvider: oneOf(['firebase', 'rest', 'webdav']),
+  firebaseConfig: orNull(isObject),
+  restSyncConfig: orNull(isObject),
+  webdavSyncConfig: orNull(isObject),
+  defaultReminders: Array.isArray,
+  savedFilters: Array.isArray,
+};
+
+// Known settings with a value of the right type; everything else is dropped
+export const pickSettings = (value: Record<string, unknown>): Partial<AppSettings> =>
+  Object.fromEntries(Object.entries(value).filter(([key, setting]) =>
+    Object.prototype.hasOwnProperty.call(SETTING_CHECKS, key) && SETTING_CHECKS[key as keyof AppSettings](setting)));
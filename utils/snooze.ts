@@ -0,0 +1,41 @@
+import { Task } from '../types';
+import { formatDate, formatShortDate, formatTime } from './date';
+
+export interface SnoozeOption {
+  id: string;
+  label: string;
+  getUntil: (now: Date) => number;
+}
+
+const MORNING_HOUR = 9;
+
+const minutesFromNow = (minutes: number) => (now: Date) => now.getTime() + minutes * 60 * 1000;
+
+export const getTomorrowMorning = (now: Date) => {
+  const d = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, MORNING_HOUR, 0, 0, 0);
+  return d.getTime();
+};
+
+export const SNOOZE_OPTIONS: SnoozeOption[] = [
+  { id: '5m', label: '5 min', getUntil: minutesFromNow(5) },
+  { id: '10m', label: '10 min', getUntil: minutesFromNow(10) },
+  { id: '30m', label: '30 min', getUntil: minutesFromNow(30) },
+  { id: '1h', label: '1 hour', getUntil: minutesFromNow(60) },
+  { id: 'tomorrow', label: 'Tomorrow morning', getUntil: getTomorrowMorning },
+];
+
+export const getSnoozeOption = (id: string) => SNOOZE_OPTIONS.find(o => o.id === id);
+
+// A snoozed task rings again once `snoozedUntil` passes
+export const snoozeTask = (task: Task, until: number): Task => ({
+  ...task,
+  snoozedUntil: until,
+  quietDeferred: undefined, // Snoozed by hand, so quiet hours no longer move it
+});
+
+// "14:35" for today, "Tue, Oct 20 09:00" otherwise
+export const formatSnoozeTime = (until: number) => {
+  const d = new Date(until);
+  const date = formatDate(d);
+  return date === formatDate(new Date()) ? formatTime(d) : `${formatShortDate(date)} ${formatTime(d)}`;
+};
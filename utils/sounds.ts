@@ -0,0 +1,31 @@
+import { AlarmSound, AppSettings, SoundMode, Task, TaskList } from '../types';
+import { TONES, TONE_IDS } from './tones';
+
+export const SOUND_LABELS = {
+  ...Object.fromEntries(TONE_IDS.map(id => [id, TONES[id].label])),
+  tts: 'Speak',
+  custom: 'Custom',
+} as Record<SoundMode, string>;
+
+// The sound a task rings with: its own, then its list's, then its priority's, then the app setting
+export const getAlarmSound = (settings: AppSettings, task: Task, list: TaskList | undefined): AlarmSound =>
+  task.sound
+  || (list?.soundMode ? { mode: list.soundMode } : undefined)
+  || settings.prioritySounds[task.priority]
+  || { mode: settings.soundMode };
+
+// Sounds as single <select> values: a mode, or "custom:<id>" for a library sound
+export const encodeSound = (sound: AlarmSound | undefined) => {
+  if (!sound) return '';
+  return sound.mode === 'custom' && sound.soundId ? `custom:${sound.soundId}` : sound.mode;
+};
+
+export const decodeSound = (value: string, phrase?: string): AlarmSound | undefined => {
+  if (!value) return undefined;
+  if (value.startsWith('custom:')) return { mode: 'custom', soundId: value.slice('custom:'.length) };
+  return value === 'tts' && phrase ? { mode: 'tts', phrase } : { mode: value as SoundMode };
+};
+
+// Priority sounds without the given library sound, after it was deleted
+export const removeSoundFromPriorities = (prioritySounds: AppSettings['prioritySounds'], soundId: string) =>
+  Object.fromEntries(Object.entries(prioritySounds).filter(([, sound]) => sound?.soundId !== soundId)) as AppSettings['prioritySounds'];
@@ -0,0 +1,61 @@
+import { Subtask, Task } from '../types';
+
+// Separates checklist items in a CSV cell, e.g. "Pack bags | Check tickets"
+export const SUBTASK_SEPARATOR = '|';
+
+export const createSubtask = (title: string, time?: string): Subtask => ({
+  id: crypto.randomUUID(),
+  title,
+  completed: false,
+  ...(time ? { time } : {}),
+});
+
+export const getSubtaskProgress = (task: Task) => {
+  const subtasks = task.subtasks || [];
+  return { done: subtasks.filter(s => s.completed).length, total: subtasks.length };
+};
+
+export const areSubtasksDone = (task: Task) => {
+  const { done, total } = getSubtaskProgress(task);
+  return total > 0 && done === total;
+};
+
+export const toggleSubtask = (task: Task, subtaskId: string): Task => ({
+  ...task,
+  subtasks: task.subtasks?.map(s => s.id === subtaskId ? { ...s, completed: !s.completed } : s),
+});
+
+// A new occurrence of a recurring task starts with an unchecked list
+export const resetSubtasks = (subtasks: Subtask[] | undefined) => {
+  return subtasks?.map(s => ({ ...s, completed: false }));
+};
+
+export const moveSubtask = (subtasks: Subtask[], from: number, to: number) => {
+  if (to < 0 || to >= subtasks.length) return subtasks;
+  const next = [...subtasks];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// CSV cell format: titles separated by SUBTASK_SEPARATOR, each optionally followed by
+// "@HH:mm" for its due time and prefixed with "[x] " when done
+export const formatSubtaskCell = (subtasks: Subtask[] | undefined) => {
+  return (subtasks || [])
+    .map(s => `${s.completed ? '[x] ' : ''}${s.title}${s.time ? ` @${s.time}` : ''}`)
+    .join(` ${SUBTASK_SEPARATOR} `);
+};
+
+export const parseSubtaskCell = (cell: string | undefined): Subtask[] => {
+  return (cell || '')
+    .split(SUBTASK_SEPARATOR)
+    .map(part => {
+      const match = part.trim().match(/^(\[x\]\s*)?(.*?)(?:\s*@(\d{1,2}):(\d{2}))?$/i);
+      const title = match?.[2].trim();
+      if (!match || !title) return null;
+      const hours = match[3] ? Number(match[3]) : NaN;
+      const time = hours < 24 && Number(match[4]) < 60 ? `${match[3].padStart(2, '0')}:${match[4]}` : undefined;
+      return { ...createSubtask(title, time), completed: !!match[1] };
+    })
+    .filter((s): s is Subtask => s !== null);
+};
@@ -0,0 +1,258 @@
+// Tasks as CSV rows. The first columns match the import template, so older
+// templates and headerless files still import positionally. Files from other
+// apps are mapped by header name and can be remapped before importing.
+
+import { Priority, Task, TaskList } from '../types';
+import { parseCsv, toCsv } from './csv';
+import { normalizeTag } from './filters';
+import { parseRRule, toRRule } from './ical';
+import { formatSubtaskCell, parseSubtaskCell } from './subtasks';
+import { createReminders } from './reminders';
+import { anchorMonthDay } from './recurrence';
+import { DateOrder, formatDate, formatTime } from './date';
+
+export const CSV_COLUMNS = ['Title', 'Time', 'Date', 'Priority', 'Subtasks', 'Completed', 'Created', 'Id', 'List', 'Tags', 'Notes', 'Recurrence', 'Reminders'] as const;
+
+export type CsvColumn = typeof CSV_COLUMNS[number];
+
+export const CSV_TEMPLATE = toCsv([
+  ['Title', 'Time', 'Date', 'Priority', 'Subtasks'],
+  ['Buy Groceries', '14:00', '2023-12-25', 'medium', 'Milk | Bread | Eggs'],
+  ['Team Meeting', '09:30', '2023-12-26', 'high', ''],
+  ['Walk Dog', '18:00', '', 'low', ''], // Missing date defaults to today
+]);
+
+export const tasksToCsv = (tasks: Task[], lists: TaskList[]) => {
+  const listNames = new Map(lists.map(l => [l.id, l.name]));
+  const rows = tasks.map(task => {
+    const cells: Record<CsvColumn, string> = {
+      Title: task.title,
+      Time: task.time,
+      Date: task.date,
+      Priority: task.priority,
+      Subtasks: formatSubtaskCell(task.subtasks),
+      Completed: String(task.completed),
+      Created: task.createdAt ? new Date(task.createdAt).toISOString() : '',
+      Id: task.id,
+      List: (task.listId && listNames.get(task.listId)) || '',
+      Tags: (task.tags || []).join(' '),
+      Notes: task.notes || '',
+      Recurrence: task.recurrence ? toRRule(task.recurrence) : '',
+      Reminders: (task.reminders || []).map(r => r.offsetMinutes).join(' '),
+    };
+    return CSV_COLUMNS.map(column => cells[column]);
+  });
+  return toCsv([[...CSV_COLUMNS], ...rows]);
+};
+
+// Which file column feeds each task field, by position
+export type CsvMapping = Partial<Record<CsvColumn, number>>;
+
+// Values typed in the preview to correct a row, by task field
+export type CsvRowFixes = Partial<Record<CsvColumn, string>>;
+
+export interface CsvTable {
+  headers: string[]; // "Column 1", "Column 2", ... when the file has no header row
+  hasHeader: boolean;
+  rows: string[][];
+}
+
+export interface CsvRowIssue {
+  column: CsvColumn;
+  message: string;
+}
+
+export interface CsvRowResult {
+  task: Task | null; // Null while the row has issues
+  issues: CsvRowIssue[];
+}
+
+export interface CsvImportOptions {
+  mapping: CsvMapping;
+  dateOrder: DateOrder;
+  lists: TaskList[];
+  today: string;
+  now: number;
+}
+
+// Header names used by common spreadsheet and to-do exports, compared without case or punctuation
+const HEADER_ALIASES: Record<CsvColumn, string[]> = {
+  Title: ['title', 'name', 'task', 'task name', 'subject', 'summary', 'content'],
+  Time: ['time', 'due time', 'start time', 'reminder time'],
+  Date: ['date', 'due date', 'due', 'start date', 'deadline'],
+  Priority: ['priority', 'importance'],
+  Subtasks: ['subtasks', 'sub tasks', 'checklist'],
+  Completed: ['completed', 'complete', 'done', 'status'],
+  Created: ['created', 'created at', 'date created', 'created date'],
+  Id: ['id', 'uid', 'task id'],
+  List: ['list', 'project', 'folder'],
+  Tags: ['tags', 'tag', 'labels', 'label', 'categories', 'category'],
+  Notes: ['notes', 'note', 'description', 'details'],
+  Recurrence: ['recurrence', 'repeat', 'rrule', 'recurring'],
+  Reminders: ['reminders', 'reminder', 'alerts'],
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const findAlias = (header: string) =>
+  CSV_COLUMNS.find(column => HEADER_ALIASES[column].includes(normalizeHeader(header)));
+
+export const readCsvTable = (text: string): CsvTable => {
+  const rows = parseCsv(text);
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const hasHeader = (rows[0] || []).some(cell => findAlias(cell) !== undefined);
+  return {
+    headers: hasHeader
+      ? Array.from({ length: width }, (_, i) => rows[0][i]?.trim() || `Column ${i + 1}`)
+      : Array.from({ length: width }, (_, i) => `Column ${i + 1}`),
+    hasHeader,
+    rows: hasHeader ? rows.slice(1) : rows,
+  };
+};
+
+// Headers are matched by name, headerless files by the template's column order
+export const guessMapping = (table: CsvTable): CsvMapping => {
+  const mapping: CsvMapping = {};
+  if (!table.hasHeader) {
+    CSV_COLUMNS.forEach((column, i) => {
+      if (i < table.headers.length) mapping[column] = i;
+    });
+    return mapping;
+  }
+  table.headers.forEach((header, i) => {
+    const column = findAlias(header);
+    if (column && mapping[column] === undefined) mapping[column] = i;
+  });
+  return mapping;
+};
+
+const NUMERIC_DATE = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:(?:T|\s+)(.+))?$/;
+
+// 05/03/2024 is ambiguous, but a file is written in one format, so any day above 12 settles
+// it for every row. Files with only ambiguous dates use the fallback (the user's locale).
+export const detectDateOrder = (values: string[], fallback: DateOrder): DateOrder => {
+  const votes: Record<DateOrder, number> = { ymd: 0, dmy: 0, mdy: 0 };
+  values.forEach(value => {
+    const match = value.trim().match(NUMERIC_DATE);
+    if (!match) return;
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    if (match[1].length === 4) votes.ymd++;
+    else if (first > 12) votes.dmy++;
+    else if (second > 12) votes.mdy++;
+  });
+  const best = (Object.keys(votes) as DateOrder[]).reduce((a, b) => votes[b] > votes[a] ? b : a);
+  return votes[best] > 0 ? best : fallback;
+};
+
+// "14:30", "14.30", "14:30:00", "2:30 PM", "2pm" and "2:30 p.m." to "HH:mm"
+export const parseTimeCell = (value: string): string | null => {
+  const text = value.trim().toLowerCase();
+  const twelveHour = text.match(/^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*([ap])\.?\s*m?\.?$/);
+  const twentyFourHour = text.match(/^(\d{1,2})[:.h](\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  let hours: number, minutes: number;
+  if (twelveHour) {
+    hours = Number(twelveHour[1]);
+    minutes = Number(twelveHour[2] || 0);
+    if (hours < 1 || hours > 12) return null;
+    hours = hours % 12 + (twelveHour[3] === 'p' ? 12 : 0);
+  } else if (twentyFourHour) {
+    hours = Number(twentyFourHour[1]);
+    minutes = Number(twentyFourHour[2]);
+  } else {
+    return null;
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Numeric dates in the given order, with 2-digit years in this century, or written out
+// ("March 5, 2024"). Some exports put the time in the date cell, which is returned too.
+export const parseDateCell = (value: string, order: DateOrder): { date: string; time?: string } | null => {
+  const text = value.trim();
+  const match = text.match(NUMERIC_DATE);
+  if (match) {
+    const parts = [match[1], match[2], match[3]];
+    const [y, m, d] = match[1].length === 4 || order === 'ymd'
+      ? parts
+      : order === 'dmy' ? [parts[2], parts[1], parts[0]] : [parts[2], parts[0], parts[1]];
+    const year = y.length <= 2 ? 2000 + Number(y) : Number(y);
+    const result = new Date(year, Number(m) - 1, Number(d));
+    // Rejects 31/02 instead of rolling over to March
+    if (y.length === 3 || result.getMonth() !== Number(m) - 1 || result.getDate() !== Number(d)) return null;
+    if (!match[4]) return { date: formatDate(result) };
+    const time = parseTimeCell(match[4]);
+    if (time) return { date: formatDate(result), time };
+  }
+  // ISO timestamps with a zone and written-out dates
+  if (match || /[a-z]/i.test(text)) {
+    const timestamp = Date.parse(text);
+    if (isNaN(timestamp)) return null;
+    const parsed = new Date(timestamp);
+    return { date: formatDate(parsed), ...(/\d:\d\d/.test(text) ? { time: formatTime(parsed) } : {}) };
+  }
+  return null;
+};
+
+const PRIORITY_ALIASES: Record<Priority, string[]> = {
+  high: ['high', 'h', 'urgent', 'important', 'p1', '1', '!!!'],
+  medium: ['medium', 'med', 'm', 'normal', 'p2', '2', '!!', ''],
+  low: ['low', 'l', 'p3', 'p4', '3', '4', '!', 'none'],
+};
+
+const parsePriority = (value: string) =>
+  (Object.keys(PRIORITY_ALIASES) as Priority[]).find(p => PRIORITY_ALIASES[p].includes(value.toLowerCase()));
+
+// A row becomes a task when it has a title and a readable time. Everything else is optional:
+// a missing date means today and unknown list names leave the task for the target list.
+export const parseCsvRow = (row: string[], index: number, options: CsvImportOptions, fixes: CsvRowFixes = {}): CsvRowResult => {
+  const { mapping, dateOrder, lists, today, now } = options;
+  const cell = (column: CsvColumn) => {
+    if (fixes[column] !== undefined) return fixes[column]!.trim();
+    const i = mapping[column];
+    return i !== undefined ? (row[i] || '').trim() : '';
+  };
+  const issues: CsvRowIssue[] = [];
+
+  const title = cell('Title');
+  if (!title) issues.push({ column: 'Title', message: 'Title is missing' });
+
+  const dateCell = cell('Date') ? parseDateCell(cell('Date'), dateOrder) : { date: today };
+  if (!dateCell) issues.push({ column: 'Date', message: `Date "${cell('Date')}" is not recognised` });
+
+  const time = cell('Time') ? parseTimeCell(cell('Time')) : dateCell?.time || null;
+  if (!time) issues.push({ column: 'Time', message: cell('Time') ? `Time "${cell('Time')}" is not recognised` : 'Time is missing' });
+
+  const priority = parsePriority(cell('Priority'));
+  if (!priority) issues.push({ column: 'Priority', message: `Priority "${cell('Priority')}" is not recognised` });
+
+  const recurrence = cell('Recurrence') ? parseRRule(cell('Recurrence')) : undefined;
+  if (cell('Recurrence') && !recurrence) issues.push({ column: 'Recurrence', message: `Repeat rule "${cell('Recurrence')}" is not recognised` });
+
+  if (issues.length > 0) return { task: null, issues };
+
+  const created = Date.parse(cell('Created'));
+  const subtasks = parseSubtaskCell(cell('Subtasks'));
+  const listId = lists.find(l => l.name.trim().toLowerCase() === cell('List').toLowerCase())?.id;
+  const tags = cell('Tags').split(/[\s,;]+/).map(normalizeTag).filter(Boolean);
+  const notes = cell('Notes').replace(/\r\n?/g, '\n');
+  const offsets = cell('Reminders').split(/[\s,;]+/).map(Number).filter(n => Number.isInteger(n) && n > 0);
+
+  return {
+    issues,
+    task: {
+      id: cell('Id') || crypto.randomUUID(),
+      title,
+      time: time!,
+      date: dateCell!.date,
+      priority: priority!,
+      completed: /^(true|yes|y|1|x|done|completed?)$/i.test(cell('Completed')),
+      createdAt: isNaN(created) ? now + index : created, // Offset preserves the file order in creation sort
+      ...(listId ? { listId } : {}),
+      ...(subtasks.length > 0 ? { subtasks } : {}),
+      ...(tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+      ...(notes ? { notes } : {}),
+      ...(recurrence ? { recurrence: anchorMonthDay(recurrence, dateCell!.date), occurrence: 1 } : {}),
+      ...(offsets.length > 0 ? { reminders: createReminders(offsets) } : {}),
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { getEscalation, getEscalationSeconds } from './tones';
+
+describe('getEscalation', () => {
+  it('ramps up over the duration window', () => {
+    const windowMs = getEscalationSeconds(30) * 1000;
+    expect(getEscalation(0, windowMs)).toEqual({ volume: 0.3, tempo: 1 });
+    expect(getEscalation(30000, windowMs)).toEqual({ volume: 1, tempo: 2 });
+  });
+
+  it('ramps up over a minute when the alarm plays until dismissed', () => {
+    const windowMs = getEscalationSeconds(0) * 1000;
+    expect(getEscalation(0, windowMs).volume).toBe(0.3);
+    expect(getEscalation(30000, windowMs).volume).toBeCloseTo(0.65);
+    expect(getEscalation(60000, windowMs).volume).toBe(1);
+  });
+});
@@ -0,0 +1,87 @@
+// Synthesized alarm tones, described as data and played through the Web Audio graph by audioService.
+// Each note is one oscillator with its own envelope; a tone repeats every `interval` ms while looping.
+
+import { ToneId } from '../types';
+
+export interface ToneNote {
+  freq: number; // Hz
+  endFreq?: number; // Glides to this frequency over the note
+  start: number; // Seconds after the tone starts
+  duration: number; // Seconds
+  wave: OscillatorType;
+  gain: number; // Peak level, multiplied by the volume setting
+  attack?: number; // Seconds to reach the peak; starts at the peak when unset
+  release: 'fade' | 'cut'; // Fade out over the note or stop abruptly
+}
+
+export interface ToneDefinition {
+  label: string;
+  notes: ToneNote[];
+  interval: number; // ms from one repeat to the next
+}
+
+// A struck note: a sine fundamental plus a quickly fading overtone, like a wooden bar
+const marimbaNote = (freq: number, start: number): ToneNote[] => [
+  { freq, start, duration: 0.5, wave: 'sine', gain: 0.6, attack: 0.005, release: 'fade' },
+  { freq: freq * 4, start, duration: 0.08, wave: 'sine', gain: 0.15, attack: 0.002, release: 'fade' },
+];
+
+export const TONES: Record<ToneId, ToneDefinition> = {
+  bell: {
+    label: 'Bell',
+    notes: [{ freq: 523.25, endFreq: 261.63, start: 0, duration: 0.6, wave: 'sine', gain: 1, release: 'fade' }], // C5 to C4
+    interval: 1000,
+  },
+  chime: {
+    label: 'Chimes',
+    notes: [659.25, 523.25, 587.33, 392].map((freq, i) => ( // E5, C5, D5, G4
+      { freq, start: i * 0.4, duration: 1.2, wave: 'sine' as OscillatorType, gain: 0.5, attack: 0.05, release: 'fade' as const }
+    )),
+    interval: 2800,
+  },
+  urgent: {
+    label: 'Urgent',
+    notes: [0, 0.15, 0.3].map(start => (
+      { freq: 880, start, duration: 0.1, wave: 'square' as OscillatorType, gain: 0.3, release: 'cut' as const } // A5
+    )),
+    interval: 1000,
+  },
+  beep: {
+    label: 'Digital Beep',
+    notes: [0, 0.2].map(start => (
+      { freq: 2000, start, duration: 0.08, wave: 'square' as OscillatorType, gain: 0.15, release: 'cut' as const }
+    )),
+    interval: 1000,
+  },
+  marimba: {
+    label: 'Marimba',
+    notes: [523.25, 659.25, 783.99, 659.25].flatMap((freq, i) => marimbaNote(freq, i * 0.18)), // C5, E5, G5, E5
+    interval: 1600,
+  },
+  siren: {
+    label: 'Rising Siren',
+    notes: [{ freq: 440, endFreq: 1320, start: 0, duration: 1.2, wave: 'triangle', gain: 0.5, attack: 0.1, release: 'cut' }],
+    interval: 1500,
+  },
+};
+
+export const TONE_IDS = Object.keys(TONES) as ToneId[];
+
+export const isToneId = (value: string): value is ToneId => TONE_IDS.includes(value as ToneId);
+
+const MIN_ESCALATION_VOLUME = 0.3;
+const MAX_ESCALATION_TEMPO = 2;
+// Alarms that play until dismissed (duration 0) ramp up over the first minute
+const OPEN_ENDED_ESCALATION_SECONDS = 60;
+
+export const getEscalationSeconds = (audioDuration: number) => audioDuration > 0 ? audioDuration : OPEN_ENDED_ESCALATION_SECONDS;
+
+// Escalating alarms start at 30% of the volume and reach the full volume, repeating twice as
+// fast, at the end of the window, so an ignored reminder gets more insistent
+export const getEscalation = (elapsedMs: number, windowMs: number) => {
+  const progress = windowMs > 0 ? Math.min(1, Math.max(0, elapsedMs / windowMs)) : 1;
+  return {
+    volume: MIN_ESCALATION_VOLUME + (1 - MIN_ESCALATION_VOLUME) * progress,
+    tempo: 1 + (MAX_ESCALATION_TEMPO - 1) * progress,
+  };
+};
@@ -1,7 +1,28 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Copies sw.js into the build and fills in the precache list.
+// The cache version is derived from the (content-hashed) output file names.
+const precacheServiceWorker = (): Plugin => ({
+  name: 'windo-precache-sw',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).sort();
+    const version = crypto.createHash('sha1').update(files.join('|')).digest('hex').slice(0, 8);
+    const urls = ['./', ...files.map(file => `./${file}`)];
+
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace(/const CACHE_VERSION = .*;/, `const CACHE_VERSION = '${version}';`)
+      .replace(/const PRECACHE_URLS = .*;/, `const PRECACHE_URLS = ${JSON.stringify(urls)};`);
+
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +30,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheServiceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)